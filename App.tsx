@@ -12,13 +12,132 @@ import {
   FileArchive,
   Info,
   ChevronRight,
-  Video
+  Video,
+  Settings,
+  Captions,
+  Loader2,
+  Upload,
+  HardDrive,
+  Mic,
+  MicOff,
+  Volume2,
+  VolumeX,
+  Keyboard,
+  Flag,
+  Scissors,
+  Subtitles,
+  FileText,
+  Search,
+  SlidersHorizontal,
+  Tag,
+  Square,
+  SquareCheck,
+  ListChecks,
+  RotateCcw,
+  ZoomIn,
+  ZoomOut,
+  MousePointerClick,
+  Pencil,
+  MoveUpRight,
+  Highlighter,
+  Type,
+  Undo2,
+  Eraser,
+  UserRound,
+  type LucideIcon
 } from 'lucide-react';
-import { RecordingSession, LayoutStyle, QualityConfig } from './types';
+import { RecordingSession, SessionSummary, SessionPageCursor, LayoutStyle, LayoutDefinition, LayoutDivider, Scene, QualityConfig, MixerSettings, MixerLevels, AudioLevels, AudioSourceId, HotkeyAction, HotkeyBindings, RecordingMarker, RecordingTimeline, EditList, LibraryView, LibrarySort, SessionFilter, Resolution, CaptionCue, CaptionStyle, CaptionPosition, TranscriptionSettings, TranscriptionMode, TranscriptionProgress, TranscriptionStage, LocalServerHealth, RenderStats, PointerEffects, ZoomKeyframe, WebcamAppearance, WebcamShape, AnnotationSettings, AnnotationTool, FFmpegProgress, FFmpegTaskOptions, Job, JobStatus, PendingRecording, StorageEstimate, RetentionSettings } from './types';
 import { VideoRecorder } from './services/recorder';
-import { getAllSessions, saveSession, deleteSession, clearAllSessions } from './services/db';
+import { getSessionPage, getSession, getSessionIds, getAllSessionSummaries, saveSession, updateSession, deleteSession, clearAllSessions, deletePendingRecording, subscribeUpgradeBlocked } from './services/db';
+import {
+  applyRetentionPlan,
+  estimateRecordableSeconds,
+  formatBytes,
+  getStorageEstimate,
+  loadRetentionSettings,
+  planRetention,
+  requestPersistentStorage,
+  planLibraryRetention,
+  isEmptyRetentionPlan,
+  describeRetentionPlan,
+  saveRetentionSettings,
+  sessionBytes
+} from './services/storage';
+import { findUnfinishedRecordings, recoverRecording } from './services/recovery';
+import {
+  DEFAULT_SPLIT_RATIO,
+  buildSplitLayout,
+  deleteCustomLayout,
+  getLayout,
+  getLayouts,
+  hasMovableRegion,
+  saveCustomLayout,
+  usesWebcam
+} from './services/layouts';
+import {
+  DEFAULT_OPENAI_BASE_URL,
+  loadTranscriptionSettings,
+  saveTranscriptionSettings,
+  formatSrtTimestamp,
+  segmentsToSrt,
+  srtToVtt,
+  transcribeSession
+} from './services/transcription';
+import { checkLocalServer } from './services/localWhisper';
+import { canStreamCopy, changeContainer, extractAudio, getFFmpegSupport, renderEdit, FFmpegCancelledError } from './services/ffmpeg';
+import { editedDuration, editsEqual, emptyEdit, isIdentityEdit, keptSegments, nextKeptTime, normalizeEdit, MIN_SEGMENT_SECONDS } from './services/edits';
+import { captureFrames, captureThumbnails, evenlySpacedTimes, withThumbnails } from './services/frames';
+import { acquireObjectUrl, downloadBlob, releaseObjectUrl } from './services/objectUrls';
+import { inspectWebm } from './services/webm';
+import {
+  CAPTION_FONTS,
+  MIN_CUE_SECONDS,
+  activeCue,
+  attachWords,
+  burnInCaptions,
+  countMatches,
+  cuesToTranscript,
+  drawCaptions,
+  loadCaptionStyle,
+  mergeCues,
+  parseCaptions,
+  parseTimestamp,
+  realignWords,
+  replaceInCues,
+  retimeCues,
+  saveCaptionStyle,
+  splitCue
+} from './services/captions';
+import { buildBundle, buildMultiBundle, importFile } from './services/bundle';
+import { JobQueue } from './services/jobs';
+import { formatSessionId, nextFreeSessionId } from './services/sessionId';
+import { LIBRARY_SORTS, isFilterActive, loadLibraryView, pageQueryFor, parseTags, saveLibraryView, sessionTitle, EMPTY_FILTER } from './services/library';
+import { createScene, loadScenes, sameAspect, saveScenes } from './services/scenes';
+import { AudioMixer, SILENCE_DB, loadMixerSettings, saveMixerSettings } from './services/mixer';
+import { FULL_FRAME, MAX_ZOOM, loadPointerEffects, normalizeZoomTimeline, savePointerEffects } from './services/camera';
+import { MAX_WEBCAM_SIZE, MIN_WEBCAM_SIZE, clampWebcamSize, loadWebcamAppearance, saveWebcamAppearance } from './services/webcamStyle';
+import { ANNOTATION_COLORS, ANNOTATION_FADES, loadAnnotationSettings, saveAnnotationSettings } from './services/annotations';
+import { AUDIO_BITRATES, CODECS, MAX_SHORT_SIDE, MIN_SHORT_SIDE, RESOLUTIONS, VIDEO_BITRATES, codecLabel, loadQuality, probeRecordingCodecs, resolutionLabel, saveQuality, shortSideFor } from './services/quality';
+import { formatChapterTimestamp, markersToChapters, toYouTubeChapters } from './services/chapters';
+import {
+  DEFAULT_HOTKEYS,
+  HOTKEY_ACTIONS,
+  actionForCombo,
+  comboFromEvent,
+  findAllConflicts,
+  findConflict,
+  formatCombo,
+  isReservedCombo,
+  isTypingTarget,
+  loadHotkeys,
+  saveHotkeys
+} from './services/hotkeys';
 
-declare var JSZip: any;
+// Percent of the canvas the webcam bubble moves per nudge.
+const NUDGE_STEP = 2;
+
+// Transcription reports stages, not bytes; batch jobs show these as rough progress.
+const TRANSCRIPTION_STAGE_PROGRESS: Partial<Record<TranscriptionStage, number>> = { preparing: 0.05, uploading: 0.2, processing: 0.6, saving: 0.9 };
 
 const formatDuration = (sec: number) => {
   const m = Math.floor(sec / 60);
@@ -26,19 +145,25 @@ const formatDuration = (sec: number) => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
-const formatTimestamp = () => {
-  const now = new Date();
-  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  return `${now.getDate().toString().padStart(2, '0')}-${months[now.getMonth()]}-${now.getFullYear()}_${now.getHours().toString().padStart(2, '0')}-${now.getMinutes().toString().padStart(2, '0')}-${now.getSeconds().toString().padStart(2, '0')}`;
+const sessionAspect = (session: SessionSummary): string => {
+  const canvas = session.metadata?.canvas;
+  if (canvas) return `${canvas.width} / ${canvas.height}`;
+  const { w, h } = (session.metadata?.layout || getLayout(session.layoutStyle)).aspect;
+  return `${w} / ${h}`;
 };
 
-const triggerDownload = (url: string, filename: string) => {
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
+// Object URL for a blob on screen, released when the blob changes or the component unmounts.
+const useObjectUrl = (blob?: Blob | null): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    setUrl(acquireObjectUrl(blob));
+    return () => releaseObjectUrl(blob);
+  }, [blob]);
+  return url;
 };
 
 const InstructionsModal: React.FC<{ onClose: () => void }> = ({ onClose }) => (
@@ -53,7 +178,7 @@ const InstructionsModal: React.FC<{ onClose: () => void }> = ({ onClose }) => (
       </div>
       <div className="grid gap-4">
         {[
-          { step: "01", title: "Select Layout", desc: "Overlay for floating webcam or Shorts for social." },
+          { step: "01", title: "Select Layout", desc: "Pick a layout, or cut between scenes with hotkeys while recording." },
           { step: "02", title: "Sources", desc: "Select your camera and microphone." },
           { step: "03", title: "Capture", desc: "Local processing, zero cloud latency." },
           { step: "04", title: "Export", desc: "WebM or production ZIP bundles." }
@@ -74,6 +199,1124 @@ const InstructionsModal: React.FC<{ onClose: () => void }> = ({ onClose }) => (
   </div>
 );
 
+const ShortcutsModal: React.FC<{
+  bindings: HotkeyBindings;
+  onSave: (bindings: HotkeyBindings) => void;
+  onClose: () => void;
+}> = ({ bindings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<HotkeyBindings>(bindings);
+  const [capturing, setCapturing] = useState<HotkeyAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const conflicts = useMemo(() => new Set<HotkeyAction>(findAllConflicts(draft)), [draft]);
+  const labelOf = (id: HotkeyAction) => HOTKEY_ACTIONS.find(a => a.id === id)?.label || id;
+
+  useEffect(() => {
+    if (!capturing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      if (e.code === 'Backspace' || e.code === 'Delete') {
+        setDraft(prev => ({ ...prev, [capturing]: null }));
+        setCapturing(null);
+        setError(null);
+        return;
+      }
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      if (isReservedCombo(combo)) {
+        setError(`${formatCombo(combo)} is handled by the browser and can't be used.`);
+        return;
+      }
+      const clash = findConflict(draft, capturing, combo);
+      if (clash) {
+        setError(`${formatCombo(combo)} is already bound to "${labelOf(clash)}". Unbind it first.`);
+        return;
+      }
+      setDraft(prev => ({ ...prev, [capturing]: combo }));
+      setCapturing(null);
+      setError(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturing, draft]);
+
+  const groups = [...new Set(HOTKEY_ACTIONS.map(a => a.group))];
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black/95 flex items-center justify-center p-4 backdrop-blur-xl">
+      <div className="max-w-xl w-full max-h-[90vh] overflow-y-auto bg-[#0a0a0a] border border-white/10 rounded-[2rem] p-8 space-y-6 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 hover:bg-white/5 rounded-full transition-colors">
+          <X className="w-5 h-5 text-white/40" />
+        </button>
+        <div className="space-y-2">
+          <h2 className="text-3xl font-extrabold tracking-tight">Shortcuts</h2>
+          <p className="text-base text-white/40">Click a shortcut to rebind it. Esc cancels, Backspace unbinds.</p>
+        </div>
+
+        {groups.map(group => (
+          <div key={group} className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-white/40">{group}</label>
+            <div className="grid gap-1">
+              {HOTKEY_ACTIONS.filter(a => a.group === group).map(a => (
+                <div key={a.id} className="flex items-center justify-between gap-4 py-1">
+                  <span className="text-sm text-white/70">{a.label}</span>
+                  <button
+                    onClick={() => { setCapturing(a.id); setError(null); }}
+                    className={`min-w-[7rem] px-3 py-1.5 rounded-lg border font-mono text-xs transition-all ${capturing === a.id ? 'border-red-600 bg-red-600/20 text-white animate-pulse' : conflicts.has(a.id) ? 'border-red-600/60 text-red-500' : 'border-white/10 bg-white/5 text-white/70 hover:bg-white/10'}`}
+                  >
+                    {capturing === a.id ? 'Press keys…' : formatCombo(draft[a.id])}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+        {conflicts.size > 0 && !error && <p className="text-xs text-red-500">Some shortcuts share the same keys. Rebind them before saving.</p>}
+
+        <div className="flex gap-3">
+          <button onClick={() => { setDraft({ ...DEFAULT_HOTKEYS }); setError(null); }} className="flex-1 py-4 border border-white/10 bg-white/5 font-extrabold text-sm uppercase tracking-widest rounded-xl hover:bg-white/10 transition-all">
+            Reset
+          </button>
+          <button onClick={() => onSave(draft)} disabled={conflicts.size > 0} className="flex-1 py-4 bg-white text-black font-extrabold text-sm uppercase tracking-widest rounded-xl hover:bg-white/90 transition-all disabled:opacity-40">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SettingsModal: React.FC<{
+  settings: TranscriptionSettings;
+  onSave: (s: TranscriptionSettings) => void;
+  onClose: () => void;
+}> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<TranscriptionSettings>(settings);
+  const [health, setHealth] = useState<LocalServerHealth | null>(null);
+  const [healthError, setHealthError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const update = (patch: Partial<TranscriptionSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+  const inputClass = "w-full bg-black border border-white/10 p-2.5 text-xs font-bold rounded-lg outline-none";
+  const labelClass = "text-[9px] text-white/40 font-black uppercase tracking-widest ml-1";
+
+  const runHealthCheck = async () => {
+    setChecking(true);
+    setHealthError(null);
+    try {
+      setHealth(await checkLocalServer(draft.localServerUrl));
+    } catch (err: any) {
+      setHealth(null);
+      setHealthError(err.message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black/95 flex items-center justify-center p-4 backdrop-blur-xl">
+      <div className="max-w-xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2rem] p-8 space-y-6 shadow-2xl relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 hover:bg-white/5 rounded-full transition-colors">
+          <X className="w-5 h-5 text-white/40" />
+        </button>
+        <div className="space-y-2">
+          <h2 className="text-3xl font-extrabold tracking-tight">Settings</h2>
+          <p className="text-base text-white/40">Transcription and captions.</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {([['OPENAI', 'OpenAI API'], ['LOCAL_SERVER', 'Local Server'], ['CLI_GUIDE', 'CLI Guide']] as [TranscriptionMode, string][]).map(([mode, label]) => (
+            <button key={mode} onClick={() => update({ mode })} className={`py-3 px-3 text-[10px] font-black uppercase tracking-widest rounded-xl border transition-all ${draft.mode === mode ? 'bg-white text-black border-white' : 'border-white/5 hover:bg-white/5 text-white/40'}`}>{label}</button>
+          ))}
+        </div>
+
+        {draft.mode === 'OPENAI' && (
+          <div className="grid gap-3">
+            <div className="space-y-1">
+              <label className={labelClass}>API Key</label>
+              <input type="password" value={draft.openaiKey || ''} onChange={(e) => update({ openaiKey: e.target.value })} placeholder="sk-..." className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Model</label>
+              <input value={draft.openaiModel} onChange={(e) => update({ openaiModel: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Base URL</label>
+              <input value={draft.openaiBaseUrl || ''} onChange={(e) => update({ openaiBaseUrl: e.target.value })} placeholder={DEFAULT_OPENAI_BASE_URL} className={inputClass} />
+            </div>
+            <p className="text-[10px] text-white/30">Your key is stored in this browser only and sent directly to the endpoint above.</p>
+          </div>
+        )}
+
+        {draft.mode === 'LOCAL_SERVER' && (
+          <div className="grid gap-3">
+            <div className="space-y-1">
+              <label className={labelClass}>Server URL</label>
+              <div className="flex gap-2">
+                <input value={draft.localServerUrl} onChange={(e) => { update({ localServerUrl: e.target.value }); setHealth(null); }} placeholder="http://localhost:8000" className={inputClass} />
+                <button onClick={runHealthCheck} disabled={checking} className="px-4 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all shrink-0 flex items-center gap-2">
+                  {checking && <Loader2 className="w-3 h-3 animate-spin" />} Check
+                </button>
+              </div>
+            </div>
+            {health && (
+              <p className="text-[10px] text-green-500 font-bold">Connected · v{health.version} · {health.device} · {health.models.length} model{health.models.length === 1 ? '' : 's'}</p>
+            )}
+            {healthError && <p className="text-[10px] text-red-500 font-bold">{healthError}</p>}
+            <div className="space-y-1">
+              <label className={labelClass}>Model</label>
+              {health ? (
+                <select value={draft.localModel || ''} onChange={(e) => update({ localModel: e.target.value })} className={`${inputClass} appearance-none`}>
+                  <option value="">Server default ({health.defaultModel})</option>
+                  {health.models.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+              ) : (
+                <input value={draft.localModel || ''} onChange={(e) => update({ localModel: e.target.value })} placeholder="Server default" className={inputClass} />
+              )}
+            </div>
+            <p className="text-[10px] text-white/30">Start it with <code className="text-white/60">python tools/offline_whisper_server/server.py</code>.</p>
+          </div>
+        )}
+
+        {draft.mode === 'CLI_GUIDE' && (
+          <div className="space-y-3 text-sm text-white/60">
+            <p>Transcribe offline with the Whisper CLI, no server required:</p>
+            <pre className="bg-black border border-white/10 rounded-lg p-3 text-[10px] font-mono whitespace-pre-wrap text-white/80">{`pip install -U openai-whisper\nwhisper "recording.webm" --model medium --output_format txt,srt`}</pre>
+          </div>
+        )}
+
+        {draft.mode !== 'CLI_GUIDE' && (
+          <div className="space-y-1">
+            <label className={labelClass}>Language (optional)</label>
+            <input value={draft.language || ''} onChange={(e) => update({ language: e.target.value })} placeholder="auto-detect, or e.g. en" className={inputClass} />
+          </div>
+        )}
+
+        <button onClick={() => { onSave(draft); onClose(); }} className="w-full py-4 bg-white text-black font-extrabold text-sm uppercase tracking-widest rounded-xl hover:bg-white/90 transition-all">
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const StorageModal: React.FC<{
+  onClose: () => void;
+  onChanged: () => void;
+}> = ({ onClose, onChanged }) => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [summaries, setSummaries] = useState<SessionSummary[]>([]);
+  const [rules, setRules] = useState<RetentionSettings>(loadRetentionSettings);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const refresh = async () => {
+    const [est, all] = await Promise.all([getStorageEstimate(), getAllSessionSummaries()]);
+    setEstimate(est);
+    setSummaries(all);
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const updateRules = (patch: Partial<RetentionSettings>) => {
+    const next = { ...rules, ...patch };
+    setRules(next);
+    saveRetentionSettings(next);
+  };
+
+  const plan = useMemo(() => planRetention(summaries, rules), [summaries, rules]);
+  const bySize = useMemo(() => [...summaries].sort((a, b) => sessionBytes(b) - sessionBytes(a)), [summaries]);
+  const libraryBytes = summaries.reduce((sum, s) => sum + sessionBytes(s), 0);
+  const usedRatio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    if (!granted) alert("The browser declined persistent storage. Bookmarking the app or installing it usually helps.");
+    refresh();
+  };
+
+  const handleApply = async () => {
+    if (isEmptyRetentionPlan(plan)) return;
+    if (!confirm(describeRetentionPlan(plan))) return;
+    setIsApplying(true);
+    try {
+      await applyRetentionPlan(plan);
+    } catch (err: any) {
+      alert("Retention failed: " + err.message);
+    } finally {
+      // Part of the plan may have run before a failure.
+      await refresh().catch(() => {});
+      onChanged();
+      setIsApplying(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete?")) return;
+    await deleteSession(id);
+    await refresh();
+    onChanged();
+  };
+
+  const numberInput = (value: number | null, onChange: (v: number | null) => void, placeholder: string, min: number) => (
+    <input
+      type="number"
+      min={min}
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value === '' ? null : Math.max(min, parseInt(e.target.value, 10) || min))}
+      className="w-20 bg-black border border-white/10 p-2 text-xs font-bold rounded-lg outline-none text-right"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black/95 flex items-center justify-center p-4 backdrop-blur-xl">
+      <div className="max-w-2xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2rem] p-8 space-y-6 shadow-2xl relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 hover:bg-white/5 rounded-full transition-colors">
+          <X className="w-5 h-5 text-white/40" />
+        </button>
+        <div className="space-y-2">
+          <h2 className="text-3xl font-extrabold tracking-tight">Storage</h2>
+          <p className="text-base text-white/40">Everything lives in this browser profile.</p>
+        </div>
+
+        {estimate ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-white/40">
+              <span>{formatBytes(estimate.usage)} used · Library {formatBytes(libraryBytes)}</span>
+              <span>{formatBytes(estimate.free)} free</span>
+            </div>
+            <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+              <div className={`h-full ${usedRatio > 0.9 ? 'bg-red-600' : 'bg-white'}`} style={{ width: `${Math.min(100, usedRatio * 100)}%` }} />
+            </div>
+            <div className="flex justify-between items-center">
+              <span className={`text-[10px] font-bold ${estimate.persistent ? 'text-green-500' : 'text-white/40'}`}>
+                {estimate.persistent ? 'Persistent: protected from automatic eviction' : 'Best-effort: the browser may evict data under disk pressure'}
+              </span>
+              {!estimate.persistent && (
+                <button onClick={handlePersist} className="px-3 py-1.5 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all">Make Persistent</button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-[10px] text-white/40">This browser does not report storage usage.</p>
+        )}
+
+        <div className="space-y-3 bg-black border border-white/10 p-4 rounded-xl">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-white/60">Retention Rules</h3>
+          <label className="flex justify-between items-center gap-4 text-xs text-white/60">
+            Keep only the newest N recordings
+            {numberInput(rules.keepLastN, v => updateRules({ keepLastN: v }), 'all', 1)}
+          </label>
+          <label className="flex justify-between items-center gap-4 text-xs text-white/60">
+            Delete exported recordings older than (days)
+            {numberInput(rules.deleteExportedAfterDays, v => updateRules({ deleteExportedAfterDays: v }), 'never', 0)}
+          </label>
+          <label className="flex justify-between items-center gap-4 text-xs text-white/60">
+            Drop separate audio-only tracks
+            <input type="checkbox" checked={rules.dropAudioCopies} onChange={(e) => updateRules({ dropAudioCopies: e.target.checked })} className="accent-red-600" />
+          </label>
+          <label className="flex justify-between items-center gap-4 text-xs text-white/60">
+            Offer to apply after each recording
+            <input type="checkbox" checked={rules.autoApply} onChange={(e) => updateRules({ autoApply: e.target.checked })} className="accent-red-600" />
+          </label>
+          <div className="flex justify-between items-center pt-2 border-t border-white/5">
+            <span className="text-[10px] text-white/40">
+              {plan.deleteIds.length === 0 && plan.dropAudioIds.length === 0
+                ? 'Nothing to clean up.'
+                : `Would delete ${plan.deleteIds.length}, drop ${plan.dropAudioIds.length} audio track(s), free ${formatBytes(plan.freedBytes)}.`}
+            </span>
+            <button onClick={handleApply} disabled={isApplying || (plan.deleteIds.length === 0 && plan.dropAudioIds.length === 0)} className="px-3 py-1.5 bg-white text-black text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/90 transition-all disabled:opacity-40">
+              Apply Now
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-white/60 mb-2">Recordings by Size</h3>
+          {bySize.length === 0 && <p className="text-[10px] text-white/30">No recordings.</p>}
+          {bySize.map(s => (
+            <div key={s.id} className={`flex justify-between items-center py-1.5 px-2 rounded-lg text-[10px] ${plan.deleteIds.includes(s.id) ? 'bg-red-600/10' : ''}`}>
+              <span className="font-bold text-white/70 truncate">{s.id}</span>
+              <span className="flex items-center gap-3 shrink-0">
+                <span className="text-white/40 tabular-nums">{formatBytes(sessionBytes(s))}{s.audioBytes > 0 ? ` (audio ${formatBytes(s.audioBytes)})` : ''}</span>
+                <button onClick={() => handleDelete(s.id)} className="text-white/20 hover:text-red-500 transition-all"><Trash2 className="w-3 h-3" /></button>
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const METER_FLOOR_DB = -60;
+const meterPercent = (db: number) => Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+const LevelMeter: React.FC<{ levels: AudioLevels }> = ({ levels }) => (
+  <div className="relative h-1.5 bg-white/5 rounded-full overflow-hidden">
+    <div className={`absolute inset-y-0 left-0 transition-[width] duration-75 ${levels.peak > -1 ? 'bg-red-600' : levels.peak > -6 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${meterPercent(levels.rms)}%` }} />
+    <div className="absolute inset-y-0 w-0.5 bg-white/70" style={{ left: `${meterPercent(levels.peak)}%` }} />
+  </div>
+);
+
+const MixerPanel: React.FC<{
+  settings: MixerSettings;
+  onChange: (settings: MixerSettings) => void;
+  mixer: AudioMixer | null;
+  isRecording: boolean;
+}> = ({ settings, onChange, mixer, isRecording }) => {
+  const silent: AudioLevels = { peak: SILENCE_DB, rms: SILENCE_DB };
+  const [levels, setLevels] = useState<MixerLevels>({ mic: silent, system: silent, master: silent });
+
+  useEffect(() => {
+    if (!mixer) {
+      setLevels({ mic: silent, system: silent, master: silent });
+      return;
+    }
+    const id = window.setInterval(() => setLevels(mixer.getLevels()), 50);
+    return () => clearInterval(id);
+  }, [mixer]);
+
+  const setChannel = (id: AudioSourceId, patch: Partial<MixerSettings['channels'][AudioSourceId]>) =>
+    onChange({ ...settings, channels: { ...settings.channels, [id]: { ...settings.channels[id], ...patch } } });
+
+  const channels: { id: AudioSourceId; label: string; on: LucideIcon; off: LucideIcon }[] = [
+    { id: 'mic', label: 'Mic', on: Mic, off: MicOff },
+    { id: 'system', label: 'System', on: Volume2, off: VolumeX }
+  ];
+
+  return (
+    <div className="space-y-3 bg-[#0a0a0a] border border-white/10 p-4 rounded-xl shrink-0">
+      <div className="flex items-center justify-between">
+        <label className="text-[9px] text-white/40 font-black uppercase tracking-widest">Audio Mixer</label>
+        <label className="flex items-center gap-1.5 text-[9px] text-white/40 font-black uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={settings.captureSystemAudio} disabled={isRecording} onChange={(e) => onChange({ ...settings, captureSystemAudio: e.target.checked })} className="accent-red-600" />
+          System Audio
+        </label>
+      </div>
+      {channels.filter(c => c.id === 'mic' || settings.captureSystemAudio).map(({ id, label, on: OnIcon, off: OffIcon }) => {
+        const channel = settings.channels[id];
+        const Icon = channel.muted ? OffIcon : OnIcon;
+        return (
+          <div key={id} className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <button onClick={() => setChannel(id, { muted: !channel.muted })} className={`p-1.5 rounded-md border transition-all ${channel.muted ? 'bg-red-600/20 border-red-600/40 text-red-500' : 'border-white/10 text-white/60 hover:text-white'}`} title={channel.muted ? `Unmute ${label}` : `Mute ${label}`}>
+                <Icon className="w-3 h-3" />
+              </button>
+              <span className="text-[9px] font-black uppercase tracking-widest text-white/60 w-12">{label}</span>
+              <input type="range" min={0} max={2} step={0.05} value={channel.gain} onChange={(e) => setChannel(id, { gain: parseFloat(e.target.value) })} className="flex-grow accent-red-600" />
+              <span className="text-[9px] text-white/40 font-black tabular-nums w-8 text-right">{Math.round(channel.gain * 100)}%</span>
+            </div>
+            <LevelMeter levels={levels[id]} />
+          </div>
+        );
+      })}
+      <div className="space-y-1.5 pt-1 border-t border-white/5">
+        <span className="text-[9px] font-black uppercase tracking-widest text-white/30">Master</span>
+        <LevelMeter levels={levels.master} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => onChange({ ...settings, compressor: !settings.compressor })} className={`py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border transition-all ${settings.compressor ? 'bg-white text-black border-white' : 'border-white/5 bg-white/5 text-white/40'}`}>Compressor</button>
+        <button onClick={() => onChange({ ...settings, noiseGate: { ...settings.noiseGate, enabled: !settings.noiseGate.enabled } })} className={`py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border transition-all ${settings.noiseGate.enabled ? 'bg-white text-black border-white' : 'border-white/5 bg-white/5 text-white/40'}`}>Noise Gate</button>
+      </div>
+      {settings.noiseGate.enabled && (
+        <div className="flex items-center gap-3">
+          <label className="text-[9px] text-white/40 font-black uppercase tracking-widest shrink-0">Gate</label>
+          <input type="range" min={-80} max={-20} step={1} value={settings.noiseGate.thresholdDb} onChange={(e) => onChange({ ...settings, noiseGate: { ...settings.noiseGate, thresholdDb: parseInt(e.target.value, 10) } })} className="flex-grow accent-red-600" />
+          <span className="text-[9px] text-white/40 font-black tabular-nums w-12 text-right">{settings.noiseGate.thresholdDb} dB</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ANNOTATION_TOOLS: { id: AnnotationTool; label: string; icon: LucideIcon }[] = [
+  { id: 'pen', label: 'Pen', icon: Pencil },
+  { id: 'arrow', label: 'Arrow', icon: MoveUpRight },
+  { id: 'rect', label: 'Rectangle', icon: Square },
+  { id: 'highlighter', label: 'Highlighter', icon: Highlighter },
+  { id: 'text', label: 'Text', icon: Type }
+];
+
+// Typed in place over the preview: a prompt() would block the page and, with
+// it, the main-thread compositor and pointer handling for the take.
+const AnnotationTextInput: React.FC<{
+  x: number; // percent of the canvas
+  y: number;
+  color: string;
+  onCommit: (text: string) => void;
+  onCancel: () => void;
+}> = ({ x, y, color, onCommit, onCancel }) => {
+  const [value, setValue] = useState('');
+  const doneRef = useRef(false);
+  const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+  const finish = (commit: boolean) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    if (commit && value.trim()) onCommit(value);
+    else onCancel();
+  };
+  return (
+    <input
+      autoFocus
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') finish(true);
+        else if (e.key === 'Escape') finish(false);
+      }}
+      onBlur={() => finish(true)}
+      onMouseDown={stop} onMouseMove={stop} onMouseUp={stop} onTouchStart={stop} onTouchMove={stop} onTouchEnd={stop}
+      placeholder="Type, then Enter"
+      className="absolute min-w-[10rem] bg-black/70 border border-white/20 px-2 py-1 text-sm font-bold rounded-md outline-none placeholder:text-white/30"
+      style={{ left: `${x}%`, top: `${y}%`, color }}
+    />
+  );
+};
+
+// Floats over the live preview; swallows its own pointer events so using it
+// doesn't draw or drag the webcam underneath.
+const AnnotationToolbar: React.FC<{
+  active: boolean;
+  onToggle: () => void;
+  settings: AnnotationSettings;
+  onChange: (settings: AnnotationSettings) => void;
+  onUndo: () => void;
+  onClear: () => void;
+  hotkeys: HotkeyBindings;
+}> = ({ active, onToggle, settings, onChange, onUndo, onClear, hotkeys }) => {
+  const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+  const button = (on: boolean) => `p-1.5 rounded-md border transition-all ${on ? 'bg-white text-black border-white' : 'border-white/10 text-white/60 hover:text-white'}`;
+  return (
+    <div onMouseDown={stop} onMouseMove={stop} onMouseUp={stop} onTouchStart={stop} onTouchMove={stop} onTouchEnd={stop} className="absolute top-3 left-3 flex items-center gap-1.5 p-1.5 bg-black/80 backdrop-blur border border-white/10 rounded-lg">
+      <button onClick={onToggle} className={`p-1.5 rounded-md border transition-all ${active ? 'bg-red-600 border-red-600 text-white' : 'border-white/10 text-white/60 hover:text-white'}`} title={`Annotate (${formatCombo(hotkeys.toggleAnnotate)})`}>
+        <Pencil className="w-3.5 h-3.5" />
+      </button>
+      {active && (
+        <>
+          {ANNOTATION_TOOLS.map(({ id, label, icon: Icon }) => (
+            <button key={id} onClick={() => onChange({ ...settings, tool: id })} className={button(settings.tool === id)} title={label}>
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          ))}
+          <div className="w-px h-5 bg-white/10 mx-0.5" />
+          {ANNOTATION_COLORS.map(color => (
+            <button key={color} onClick={() => onChange({ ...settings, color })} className={`w-4 h-4 rounded-full border-2 ${settings.color === color ? 'border-white' : 'border-white/20'}`} style={{ backgroundColor: color }} title={color} />
+          ))}
+          <input type="range" min={2} max={16} step={1} value={settings.size} onChange={(e) => onChange({ ...settings, size: parseInt(e.target.value, 10) })} className="w-16 accent-red-600" title={`Size ${settings.size}`} />
+          <select value={settings.fadeSeconds ?? ''} onChange={(e) => onChange({ ...settings, fadeSeconds: e.target.value ? Number(e.target.value) : null })} className="bg-black border border-white/10 px-1.5 py-1 text-[9px] font-black uppercase rounded-md outline-none" title="Fade out after">
+            {ANNOTATION_FADES.map(f => <option key={f.label} value={f.value ?? ''}>{f.label}</option>)}
+          </select>
+          <div className="w-px h-5 bg-white/10 mx-0.5" />
+          <button onClick={onUndo} className={button(false)} title={`Undo (${formatCombo(hotkeys.undoAnnotation)})`}>
+            <Undo2 className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onClear} className={button(false)} title="Clear all">
+            <Eraser className="w-3.5 h-3.5" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const QualityPanel: React.FC<{
+  quality: QualityConfig;
+  onChange: (quality: QualityConfig) => void;
+  disabled: boolean;
+}> = ({ quality, onChange, disabled }) => {
+  const supported = useMemo(probeRecordingCodecs, []);
+  const field = 'w-full bg-black border border-white/10 p-2 text-xs font-bold rounded-lg outline-none appearance-none disabled:opacity-40';
+  const label = 'text-[9px] text-white/40 font-black uppercase tracking-widest ml-1';
+  const set = (patch: Partial<QualityConfig>) => onChange({ ...quality, ...patch });
+  const bitrateValue = (v: number | null | undefined) => v ? String(v) : '';
+  const parseBitrate = (v: string) => v ? Number(v) : null;
+
+  return (
+    <div className="space-y-3 bg-[#0a0a0a] border border-white/10 p-4 rounded-xl shrink-0">
+      <label className="text-[9px] text-white/40 font-black uppercase tracking-widest">Quality</label>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <span className={label}>Resolution</span>
+          <select value={quality.resolution} onChange={(e) => set({ resolution: e.target.value as Resolution, customShortSide: quality.customShortSide || shortSideFor(quality) })} disabled={disabled} className={field}>
+            {(Object.keys(RESOLUTIONS) as (keyof typeof RESOLUTIONS)[]).map(r => <option key={r} value={r}>{RESOLUTIONS[r].label}</option>)}
+            <option value="custom">Custom</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <span className={label}>Frame Rate</span>
+          <select value={quality.fps} onChange={(e) => set({ fps: Number(e.target.value) as 30 | 60 })} disabled={disabled} className={field}>
+            <option value={30}>30 fps</option>
+            <option value={60}>60 fps</option>
+          </select>
+        </div>
+      </div>
+      {quality.resolution === 'custom' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="number" min={MIN_SHORT_SIDE} max={MAX_SHORT_SIDE} step={2}
+            value={quality.customShortSide || shortSideFor(quality)}
+            onChange={(e) => set({ customShortSide: parseInt(e.target.value, 10) || undefined })}
+            onBlur={() => set({ customShortSide: shortSideFor(quality) })}
+            disabled={disabled}
+            className={field}
+          />
+          <span className="text-[9px] text-white/40 font-black uppercase tracking-widest shrink-0">px short side</span>
+        </div>
+      )}
+      <div className="space-y-1">
+        <span className={label}>Codec</span>
+        <select value={quality.codec || 'auto'} onChange={(e) => set({ codec: e.target.value as QualityConfig['codec'] })} disabled={disabled} className={field}>
+          <option value="auto">Auto{supported.length ? ` (${codecLabel(supported[0])})` : ''}</option>
+          {CODECS.filter(c => supported.includes(c.codec)).map(c => <option key={c.codec} value={c.codec}>{c.label} · {c.container.toUpperCase()}</option>)}
+        </select>
+        {supported.length === 0 && <p className="text-[9px] text-red-500 px-1">This browser cannot record any supported codec.</p>}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <span className={label}>Video Bitrate</span>
+          <select value={bitrateValue(quality.videoBitrate)} onChange={(e) => set({ videoBitrate: parseBitrate(e.target.value) })} disabled={disabled} className={field}>
+            {VIDEO_BITRATES.map(b => <option key={b.label} value={bitrateValue(b.value)}>{b.label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <span className={label}>Audio Bitrate</span>
+          <select value={bitrateValue(quality.audioBitrate)} onChange={(e) => set({ audioBitrate: parseBitrate(e.target.value) })} disabled={disabled} className={field}>
+            {AUDIO_BITRATES.map(b => <option key={b.label} value={bitrateValue(b.value)}>{b.label}</option>)}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const WEBCAM_SHAPES: { shape: WebcamShape; label: string }[] = [
+  { shape: 'layout', label: 'Layout' },
+  { shape: 'circle', label: 'Circle' },
+  { shape: 'rounded', label: 'Rounded' },
+  { shape: 'square', label: 'Square' }
+];
+
+const WebcamPanel: React.FC<{
+  appearance: WebcamAppearance;
+  onChange: (appearance: WebcamAppearance) => void;
+  layoutDivider?: LayoutDivider; // the active layout's own, when it has one
+}> = ({ appearance, onChange, layoutDivider }) => {
+  const label = 'text-[9px] text-white/40 font-black uppercase tracking-widest ml-1';
+  const toggle = (on: boolean) => `py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border transition-all ${on ? 'bg-white text-black border-white' : 'border-white/5 bg-white/5 text-white/40'}`;
+  const set = (patch: Partial<WebcamAppearance>) => onChange({ ...appearance, ...patch });
+  const setKey = (patch: Partial<WebcamAppearance['chromaKey']>) => set({ chromaKey: { ...appearance.chromaKey, ...patch } });
+  const slider = (name: string, value: number, min: number, max: number, unit: string, onValue: (v: number) => void) => (
+    <div className="space-y-1">
+      <div className="flex justify-between">
+        <span className={label}>{name}</span>
+        <span className="text-[9px] text-white/40 font-mono">{value}{unit}</span>
+      </div>
+      <input type="range" min={min} max={max} value={value} onChange={(e) => onValue(Number(e.target.value))} className="w-full accent-white" />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 bg-[#0a0a0a] border border-white/10 p-4 rounded-xl shrink-0">
+      <label className="flex items-center gap-1.5 text-[9px] text-white/40 font-black uppercase tracking-widest">
+        <UserRound className="w-3 h-3" /> Webcam
+      </label>
+      <div className="grid grid-cols-4 gap-1">
+        {WEBCAM_SHAPES.map(s => (
+          <button key={s.shape} onClick={() => set({ shape: s.shape })} className={toggle(appearance.shape === s.shape)}>{s.label}</button>
+        ))}
+      </div>
+      {slider('Size', appearance.size, MIN_WEBCAM_SIZE, MAX_WEBCAM_SIZE, 'px', v => set({ size: v }))}
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          {slider('Border', appearance.border.width, 0, 16, 'px', v => set({ border: { ...appearance.border, width: v } }))}
+        </div>
+        <input type="color" value={appearance.border.color} onChange={(e) => set({ border: { ...appearance.border, color: e.target.value } })} className="w-8 h-8 bg-transparent rounded cursor-pointer shrink-0" title="Border colour" />
+      </div>
+      {layoutDivider && (
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            {slider('Divider', appearance.divider.width ?? layoutDivider.width, 0, 16, 'px', v => set({ divider: { ...appearance.divider, width: v } }))}
+          </div>
+          <input type="color" value={appearance.divider.color ?? (layoutDivider.color.startsWith('#') ? layoutDivider.color : '#ffffff')} onChange={(e) => set({ divider: { ...appearance.divider, color: e.target.value } })} className="w-8 h-8 bg-transparent rounded cursor-pointer shrink-0" title="Divider colour" />
+          <button onClick={() => set({ divider: {} })} disabled={appearance.divider.width === undefined && appearance.divider.color === undefined} className="h-8 px-2 text-[9px] font-black uppercase tracking-widest rounded-lg border border-white/5 bg-white/5 text-white/40 disabled:opacity-30" title="Use each layout's own divider">Reset</button>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => set({ shadow: !appearance.shadow })} className={toggle(appearance.shadow)}>Shadow</button>
+        <button onClick={() => set({ mirror: !appearance.mirror })} className={toggle(appearance.mirror)}>Mirror</button>
+      </div>
+      {slider('Brightness', appearance.brightness, 50, 150, '%', v => set({ brightness: v }))}
+      {slider('Contrast', appearance.contrast, 50, 150, '%', v => set({ contrast: v }))}
+      {slider('Saturation', appearance.saturation, 0, 200, '%', v => set({ saturation: v }))}
+      <div className="flex items-center gap-2">
+        <button onClick={() => setKey({ enabled: !appearance.chromaKey.enabled })} className={`flex-1 ${toggle(appearance.chromaKey.enabled)}`}>Green Screen</button>
+        <input type="color" value={appearance.chromaKey.color} onChange={(e) => setKey({ color: e.target.value })} className="w-8 h-8 bg-transparent rounded cursor-pointer shrink-0" title="Key colour" />
+      </div>
+      {appearance.chromaKey.enabled && (
+        <>
+          {slider('Tolerance', appearance.chromaKey.tolerance, 0, 100, '', v => setKey({ tolerance: v }))}
+          {slider('Softness', appearance.chromaKey.softness, 0, 100, '', v => setKey({ softness: v }))}
+        </>
+      )}
+      <p className="text-[9px] text-white/20 px-1">Changes apply live. Scroll or pinch over the preview to resize the bubble.</p>
+    </div>
+  );
+};
+
+// The zoom is already in the recorded video; this edits the keyframes kept
+// alongside it (session metadata and metadata.json in bundles).
+const ZoomKeyframeEditor: React.FC<{
+  keyframes: ZoomKeyframe[];
+  duration: number;
+  currentTime: number;
+  onSeek: (t: number) => void;
+  onSave: (keyframes: ZoomKeyframe[]) => void;
+}> = ({ keyframes, duration, currentTime, onSeek, onSave }) => {
+  const [draft, setDraft] = useState(keyframes);
+  useEffect(() => setDraft(keyframes), [keyframes]);
+  const normalized = normalizeZoomTimeline(draft, duration);
+  const dirty = JSON.stringify(normalized) !== JSON.stringify(keyframes);
+  const field = 'w-16 bg-black border border-white/10 p-1.5 text-[10px] font-bold rounded-md outline-none text-right disabled:opacity-40';
+  const update = (index: number, patch: Partial<ZoomKeyframe>) => setDraft(draft.map((k, i) => i === index ? { ...k, ...patch } : k));
+  const number = (value: number, onValue: (v: number) => void, min: number, max: number, step: number, disabled = false) => (
+    <input type="number" min={min} max={max} step={step} value={value} disabled={disabled} onChange={(e) => onValue(Number(e.target.value) || 0)} className={field} />
+  );
+  // A new keyframe holds the camera that was active at the playhead.
+  const addAtPlayhead = () => {
+    const t = Math.round(currentTime * 1000) / 1000;
+    const active = [...normalized].reverse().find(k => k.t <= t) || { t: 0, ...FULL_FRAME };
+    setDraft([...draft, { ...active, t }]);
+  };
+
+  return (
+    <div className="px-5 py-4 border-t border-white/10 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-[9px] font-black uppercase tracking-widest text-white/40">Zoom Keyframes</span>
+        <div className="flex gap-2">
+          <button onClick={addAtPlayhead} className="px-3 py-1.5 bg-white/5 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all">Add at {formatDuration(currentTime)}</button>
+          <button onClick={() => onSave(normalized)} disabled={!dirty} className="px-3 py-1.5 bg-white text-black text-[9px] font-black uppercase tracking-widest rounded-lg disabled:opacity-30 transition-all">Save</button>
+        </div>
+      </div>
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-2 text-[9px] font-black uppercase tracking-widest text-white/30 px-1">
+          <span>Time (s)</span><span className="w-16 text-right">X %</span><span className="w-16 text-right">Y %</span><span className="w-16 text-right">Zoom</span><span className="w-6" />
+        </div>
+        {draft.map((k, i) => (
+          <div key={i} className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-2 items-center">
+            <div className="flex items-center gap-2">
+              {number(k.t, v => update(i, { t: v }), 0, duration, 0.1, i === 0)}
+              <button onClick={() => onSeek(k.t)} className="text-[9px] font-black uppercase tracking-widest text-white/40 hover:text-white">Seek</button>
+            </div>
+            {number(Math.round(k.x * 1000) / 10, v => update(i, { x: v / 100 }), 0, 100, 1)}
+            {number(Math.round(k.y * 1000) / 10, v => update(i, { y: v / 100 }), 0, 100, 1)}
+            {number(k.scale, v => update(i, { scale: v }), 1, MAX_ZOOM, 0.1)}
+            <button onClick={() => setDraft(draft.filter((_, j) => j !== i))} disabled={i === 0} className="w-6 flex justify-center text-white/40 hover:text-red-500 disabled:opacity-20" title={i === 0 ? 'The starting camera stays' : 'Delete keyframe'}>
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <p className="text-[9px] text-white/20 px-1">The zoom is already part of the video. These edits change the keyframes saved with the recording and its bundle's metadata.json. X and Y are the zoom centre within the screen source.</p>
+    </div>
+  );
+};
+
+const ChapterScrubber: React.FC<{
+  markers: RecordingMarker[];
+  duration: number;
+  currentTime: number;
+  onSeek: (t: number) => void;
+}> = ({ markers, duration, currentTime, onSeek }) => {
+  const chapters = useMemo(() => markersToChapters(markers, duration), [markers, duration]);
+  const [copied, setCopied] = useState(false);
+  // Shown for copying by hand when the clipboard is refused (no permission or not a secure context).
+  const [manualCopy, setManualCopy] = useState<string | null>(null);
+  if (duration <= 0) return null;
+  const pct = (t: number) => `${Math.min(100, (t / duration) * 100)}%`;
+
+  const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const copyChapters = async () => {
+    const text = toYouTubeChapters(chapters);
+    try {
+      await navigator.clipboard.writeText(text);
+      setManualCopy(null);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      setManualCopy(text);
+    }
+  };
+
+  return (
+    <div className="px-5 pt-4 space-y-3">
+      <div className="relative h-2 bg-white/5 rounded-full cursor-pointer" onClick={handleBarClick}>
+        <div className="absolute inset-y-0 left-0 bg-red-600/60 rounded-full" style={{ width: pct(currentTime) }} />
+        {markers.map((m, i) => (
+          <div key={i} className="absolute -top-1 -bottom-1 w-0.5 bg-white" style={{ left: pct(m.t) }} title={`${formatChapterTimestamp(m.t)} ${m.label || ''}`} />
+        ))}
+      </div>
+      {chapters.length > 0 && (
+        <div className="flex items-center gap-2 flex-wrap">
+          {chapters.map((c, i) => {
+            const active = currentTime >= c.start && currentTime < c.end;
+            return (
+              <button key={i} onClick={() => onSeek(c.start)} className={`px-2.5 py-1 rounded-md text-[9px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-white text-black border-white' : 'border-white/10 bg-white/5 text-white/50 hover:text-white'}`}>
+                <span className="font-mono mr-1.5">{formatChapterTimestamp(c.start)}</span>{c.title}
+              </button>
+            );
+          })}
+          <button onClick={copyChapters} className="ml-auto text-[9px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-all">
+            {copied ? 'Copied' : 'Copy YouTube Chapters'}
+          </button>
+        </div>
+      )}
+      {manualCopy !== null && (
+        <div className="space-y-1">
+          <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest text-white/40">
+            <span>Clipboard unavailable; copy the chapters below</span>
+            <button onClick={() => setManualCopy(null)} className="hover:text-white transition-all">Close</button>
+          </div>
+          <textarea
+            readOnly
+            autoFocus
+            value={manualCopy}
+            onFocus={(e) => e.currentTarget.select()}
+            rows={Math.min(8, manualCopy.split('\n').length)}
+            className="w-full bg-black border border-white/10 p-2 text-[11px] font-mono rounded-lg outline-none resize-none"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const FILMSTRIP_FRAMES = 12;
+
+const TrimEditor: React.FC<{
+  session: RecordingSession;
+  edit: EditList;
+  onChange: (edit: EditList) => void;
+  onSave: () => void;
+  currentTime: number;
+  onSeek: (t: number) => void;
+  playEdited: boolean;
+  onPlayEditedChange: (value: boolean) => void;
+  dirty: boolean;
+}> = ({ session, edit, onChange, onSave, currentTime, onSeek, playEdited, onPlayEditedChange, dirty }) => {
+  const duration = session.durationSeconds;
+  const [frames, setFrames] = useState<string[]>([]);
+  const [cutStart, setCutStart] = useState<number | null>(null);
+  const [dragging, setDragging] = useState<'in' | 'out' | null>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const segments = useMemo(() => keptSegments(edit, duration), [edit, duration]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFrames([]);
+    captureFrames(session.videoBlob, evenlySpacedTimes(duration, FILMSTRIP_FRAMES))
+      .then(f => { if (!cancelled) setFrames(f); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [session.id]);
+
+  if (duration <= 0) return null;
+  const pct = (t: number) => `${Math.max(0, Math.min(100, (t / duration) * 100))}%`;
+  const timeAt = (clientX: number) => {
+    const rect = stripRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const t = timeAt(e.clientX);
+    if (dragging === 'in') onChange({ ...edit, in: Math.min(t, edit.out - MIN_SEGMENT_SECONDS) });
+    else onChange({ ...edit, out: Math.max(t, edit.in + MIN_SEGMENT_SECONDS) });
+    onSeek(t);
+  };
+
+  const toggleCut = () => {
+    if (cutStart === null) {
+      setCutStart(currentTime);
+      return;
+    }
+    onChange(normalizeEdit({ ...edit, cuts: [...edit.cuts, { start: cutStart, end: currentTime }] }, duration));
+    setCutStart(null);
+  };
+
+  const removeCut = (index: number) => onChange({ ...edit, cuts: edit.cuts.filter((_, i) => i !== index) });
+  const button = "px-3 py-2 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all disabled:opacity-30";
+
+  return (
+    <div className="px-5 pt-4 space-y-3">
+      <div
+        ref={stripRef}
+        className="relative h-14 bg-white/5 rounded-lg overflow-hidden cursor-pointer select-none touch-none"
+        onClick={(e) => { if (!dragging) onSeek(timeAt(e.clientX)); }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerLeave={() => setDragging(null)}
+      >
+        <div className="absolute inset-0 flex">
+          {frames.map((src, i) => <img key={i} src={src} className="h-full flex-1 min-w-0 object-cover opacity-70" draggable={false} />)}
+        </div>
+        <div className="absolute inset-y-0 left-0 bg-black/75" style={{ width: pct(edit.in) }} />
+        <div className="absolute inset-y-0 right-0 bg-black/75" style={{ left: pct(edit.out) }} />
+        {edit.cuts.map((c, i) => (
+          <div key={i} className="absolute inset-y-0 bg-red-600/40 border-x border-red-600 flex items-start justify-end group/cut" style={{ left: pct(c.start), width: `calc(${pct(c.end)} - ${pct(c.start)})` }}>
+            <button onClick={(e) => { e.stopPropagation(); removeCut(i); }} className="m-0.5 p-0.5 bg-black/80 rounded-full opacity-0 group-hover/cut:opacity-100 transition-all" title="Remove cut">
+              <X className="w-2.5 h-2.5" />
+            </button>
+          </div>
+        ))}
+        {cutStart !== null && (
+          <div className="absolute inset-y-0 bg-red-600/20 border-l border-dashed border-red-500" style={{ left: pct(Math.min(cutStart, currentTime)), width: `calc(${pct(Math.max(cutStart, currentTime))} - ${pct(Math.min(cutStart, currentTime))})` }} />
+        )}
+        {(['in', 'out'] as const).map(side => (
+          <div
+            key={side}
+            onPointerDown={(e) => { e.stopPropagation(); setDragging(side); }}
+            onClick={(e) => e.stopPropagation()}
+            className="absolute inset-y-0 w-2 -ml-1 bg-yellow-400 cursor-ew-resize rounded-sm"
+            style={{ left: pct(side === 'in' ? edit.in : edit.out) }}
+            title={side === 'in' ? 'In point' : 'Out point'}
+          />
+        ))}
+        <div className="absolute inset-y-0 w-0.5 bg-white pointer-events-none" style={{ left: pct(currentTime) }} />
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <button onClick={() => onChange({ ...edit, in: Math.min(currentTime, edit.out - MIN_SEGMENT_SECONDS) })} className={button}>Set In</button>
+        <button onClick={() => onChange({ ...edit, out: Math.max(currentTime, edit.in + MIN_SEGMENT_SECONDS) })} className={button}>Set Out</button>
+        <button onClick={toggleCut} className={`${button} ${cutStart !== null ? 'bg-red-600 border-red-600 text-white' : ''}`}>
+          {cutStart !== null ? `End Cut (from ${formatDuration(cutStart)})` : 'Start Cut'}
+        </button>
+        <button onClick={() => { onChange(emptyEdit(duration)); setCutStart(null); }} className={button}>Reset</button>
+        <label className="flex items-center gap-1.5 text-[9px] text-white/40 font-black uppercase tracking-widest cursor-pointer ml-2">
+          <input type="checkbox" checked={playEdited} onChange={(e) => onPlayEditedChange(e.target.checked)} className="accent-red-600" />
+          Play edit
+        </label>
+        <span className="ml-auto text-[9px] font-black uppercase tracking-widest text-white/40">
+          {formatDuration(editedDuration(segments))} of {formatDuration(duration)} · {segments.length} segment{segments.length === 1 ? '' : 's'}
+        </span>
+        <button onClick={onSave} disabled={!dirty} className="px-4 py-2 bg-white text-black text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/90 transition-all disabled:opacity-30">Save Edit</button>
+      </div>
+    </div>
+  );
+};
+
+// Draws captions on a canvas laid over the preview <video>, at the video's
+// own resolution, with the same renderer the burn-in export uses.
+const CaptionOverlay: React.FC<{
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  cues: CaptionCue[];
+  style: CaptionStyle;
+}> = ({ videoRef, cues, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (video && canvas && ctx && video.videoWidth > 0) {
+        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+        }
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawCaptions(ctx, cues, video.currentTime, style, canvas.width, canvas.height);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [videoRef, cues, style]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none rounded-lg" />;
+};
+
+const CaptionPanel: React.FC<{
+  style: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+  visible: boolean;
+  onVisibleChange: (value: boolean) => void;
+  hasWordTimings: boolean;
+  busy: boolean;
+  onBurnIn: (target: 'webm' | 'mp4') => void;
+  onSidecar: (format: 'srt' | 'vtt') => void;
+}> = ({ style, onChange, visible, onVisibleChange, hasWordTimings, busy, onBurnIn, onSidecar }) => {
+  const update = (patch: Partial<CaptionStyle>) => onChange({ ...style, ...patch });
+  const button = "px-3 py-2 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all disabled:opacity-30";
+  const label = "flex items-center gap-1.5 text-[9px] text-white/40 font-black uppercase tracking-widest cursor-pointer";
+
+  return (
+    <div className="px-5 pt-4 space-y-3">
+      <div className="flex items-center gap-3 flex-wrap">
+        <label className={label}>
+          <input type="checkbox" checked={visible} onChange={(e) => onVisibleChange(e.target.checked)} className="accent-red-600" />
+          Show
+        </label>
+        <select value={style.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className="bg-black border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-bold">
+          {CAPTION_FONTS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+        <label className={label} title="Percent of the frame's short side">
+          Size
+          <input type="range" min={3} max={12} step={0.5} value={style.fontSize} onChange={(e) => update({ fontSize: Number(e.target.value) })} className="w-20 accent-red-600" />
+        </label>
+        <div className="flex gap-1">
+          {(['top', 'middle', 'bottom'] as CaptionPosition[]).map(position => (
+            <button key={position} onClick={() => update({ position })} className={`${button} ${style.position === position ? 'bg-white text-black hover:bg-white/90' : ''}`}>{position}</button>
+          ))}
+        </div>
+        <label className={label}>
+          Text
+          <input type="color" value={style.textColor} onChange={(e) => update({ textColor: e.target.value })} className="w-6 h-6 bg-transparent" />
+        </label>
+        <label className={label}>
+          Highlight
+          <input type="color" value={style.highlightColor} onChange={(e) => update({ highlightColor: e.target.value })} className="w-6 h-6 bg-transparent" />
+        </label>
+      </div>
+      <div className="flex items-center gap-3 flex-wrap">
+        {([['outline', 'Outline'], ['background', 'Box'], ['uppercase', 'Caps']] as const).map(([key, text]) => (
+          <label key={key} className={label}>
+            <input type="checkbox" checked={style[key]} onChange={(e) => update({ [key]: e.target.checked })} className="accent-red-600" />
+            {text}
+          </label>
+        ))}
+        <label className={`${label} ${hasWordTimings ? '' : 'opacity-30 cursor-not-allowed'}`} title={hasWordTimings ? 'Highlight each word as it is spoken' : 'This transcript has no word timings'}>
+          <input type="checkbox" checked={style.karaoke && hasWordTimings} disabled={!hasWordTimings} onChange={(e) => update({ karaoke: e.target.checked })} className="accent-red-600" />
+          Karaoke
+        </label>
+        <div className="ml-auto flex gap-2">
+          {(['srt', 'vtt'] as const).map(format => (
+            <button key={format} onClick={() => onSidecar(format)} className={button}>{format}</button>
+          ))}
+          {(['webm', 'mp4'] as const).map(target => (
+            <button key={target} onClick={() => onBurnIn(target)} disabled={busy} className="px-4 py-2 bg-white text-black text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/90 transition-all disabled:opacity-30">
+              Burn in {target}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Commits on blur or Enter; anything that does not parse snaps back.
+const TimestampInput: React.FC<{ value: number; onCommit: (t: number) => void }> = ({ value, onCommit }) => {
+  const [text, setText] = useState(formatSrtTimestamp(value));
+  useEffect(() => setText(formatSrtTimestamp(value)), [value]);
+  const commit = () => {
+    const t = parseTimestamp(text);
+    if (t === null) setText(formatSrtTimestamp(value));
+    else if (t !== value) onCommit(t);
+  };
+  return (
+    <input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      className="w-[88px] bg-black border border-white/10 rounded px-1.5 py-1 text-[10px] font-mono text-white/70 focus:border-white/40 outline-none"
+    />
+  );
+};
+
+const TranscriptPanel: React.FC<{
+  session: RecordingSession;
+  cues: CaptionCue[];
+  onChange: (cues: CaptionCue[]) => void;
+  onSave: () => void;
+  dirty: boolean;
+  currentTime: number;
+  onSeek: (t: number) => void;
+}> = ({ session, cues, onChange, onSave, dirty, currentTime, onSeek }) => {
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const active = activeCue(cues, currentTime);
+  const activeIndex = active ? cues.indexOf(active) : -1;
+  const matches = useMemo(() => countMatches(cues, find, caseSensitive), [cues, find, caseSensitive]);
+
+  // Keep the spoken cue in view during playback, unless the user is typing in the list.
+  useEffect(() => {
+    const list = listRef.current;
+    if (activeIndex < 0 || !list || list.contains(document.activeElement)) return;
+    (list.children[activeIndex] as HTMLElement | undefined)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const updateCue = (index: number, patch: Partial<CaptionCue>) => {
+    const next = cues.map((c, i) => i === index ? { ...c, ...patch } : c);
+    onChange(next.sort((a, b) => a.start - b.start));
+  };
+  const setStart = (index: number, t: number) => updateCue(index, { start: Math.max(0, Math.min(t, cues[index].end - MIN_CUE_SECONDS)) });
+  const setEnd = (index: number, t: number) => updateCue(index, { end: Math.max(t, cues[index].start + MIN_CUE_SECONDS) });
+  const split = (index: number) => {
+    const cue = cues[index];
+    const at = currentTime > cue.start && currentTime < cue.end ? currentTime : (cue.start + cue.end) / 2;
+    onChange(splitCue(cues, index, at, session.words));
+  };
+
+  const button = "px-3 py-2 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all disabled:opacity-30";
+  const field = "bg-black border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-bold outline-none focus:border-white/40";
+
+  return (
+    <div className="px-5 pt-4 space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <input value={find} onChange={(e) => setFind(e.target.value)} placeholder="Find" className={`${field} w-36`} />
+        <input value={replace} onChange={(e) => setReplace(e.target.value)} placeholder="Replace with" className={`${field} w-36`} />
+        <label className="flex items-center gap-1.5 text-[9px] text-white/40 font-black uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} className="accent-red-600" />
+          Aa
+        </label>
+        <button onClick={() => onChange(replaceInCues(cues, find, replace, caseSensitive))} disabled={matches === 0} className={button}>
+          Replace all{find ? ` (${matches})` : ''}
+        </button>
+        <span className="ml-auto text-[9px] font-black uppercase tracking-widest text-white/40">{cues.length} cue{cues.length === 1 ? '' : 's'}</span>
+        <button onClick={onSave} disabled={!dirty} className="px-4 py-2 bg-white text-black text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/90 transition-all disabled:opacity-30">Save Transcript</button>
+      </div>
+
+      <div ref={listRef} className="max-h-56 overflow-y-auto space-y-1 pr-1">
+        {cues.map((cue, i) => (
+          <div key={`${i}-${cue.start}`} className={`flex items-start gap-2 p-2 rounded-lg border transition-colors ${i === activeIndex ? 'bg-red-600/15 border-red-600/50' : 'bg-white/[0.02] border-white/5'}`}>
+            <button onClick={() => onSeek(cue.start)} className="p-1.5 mt-0.5 bg-white/5 hover:bg-white/15 rounded" title="Play from here">
+              <Play className="w-2.5 h-2.5" />
+            </button>
+            <div className="flex flex-col gap-1">
+              <TimestampInput value={cue.start} onCommit={(t) => setStart(i, t)} />
+              <TimestampInput value={cue.end} onCommit={(t) => setEnd(i, t)} />
+            </div>
+            <textarea
+              value={cue.text}
+              onChange={(e) => updateCue(i, { text: e.target.value })}
+              onFocus={() => onSeek(cue.start)}
+              rows={2}
+              className="flex-1 bg-transparent text-xs text-white/80 resize-none outline-none focus:bg-black/40 rounded px-1.5 py-1"
+            />
+            <div className="flex flex-col gap-1">
+              <button onClick={() => split(i)} disabled={cue.text.trim().split(/\s+/).length < 2} className={button} title="Split at the playhead (or the middle)">Split</button>
+              <button onClick={() => onChange(mergeCues(cues, i))} disabled={i === cues.length - 1} className={button} title="Merge with the next cue">Merge</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const Footer = () => (
   <footer className="border-t border-white/10 py-6 bg-black shrink-0">
     <div className="max-w-7xl mx-auto px-6 flex justify-between items-center gap-6">
@@ -100,39 +1343,275 @@ const App: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [elapsed, setElapsed] = useState(0);
-  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [renderStats, setRenderStats] = useState<RenderStats | null>(null);
+  const [persistError, setPersistError] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<RecordingTimeline | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionCursor, setSessionCursor] = useState<SessionPageCursor | undefined>(undefined);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [libraryView, setLibraryView] = useState<LibraryView>(loadLibraryView);
+  const libraryRequestRef = useRef(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+  const jobQueue = useMemo(() => new JobQueue(), []);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  // Jobs outlive the render that queued them; they refresh through this.
+  const refreshLibraryRef = useRef<() => void>(() => {});
   const [previewingSession, setPreviewingSession] = useState<RecordingSession | null>(null);
   const [showInstructions, setShowInstructions] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [hotkeys, setHotkeys] = useState<HotkeyBindings>(loadHotkeys);
+  const [liveMarkers, setLiveMarkers] = useState<RecordingMarker[]>([]);
+  const [previewTime, setPreviewTime] = useState(0);
+  const previewVideoRef = useRef<HTMLVideoElement>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showZoomEditor, setShowZoomEditor] = useState(false);
+  const [editDraft, setEditDraft] = useState<EditList | null>(null);
+  const [playEdited, setPlayEdited] = useState(true);
+  const previewVideoUrl = useObjectUrl(previewingSession?.videoBlob);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(loadCaptionStyle);
+  const [showCaptionPanel, setShowCaptionPanel] = useState(false);
+  const [captionsVisible, setCaptionsVisible] = useState(true);
+  const [transcriptDraft, setTranscriptDraft] = useState<CaptionCue[] | null>(null);
+  const savedCues = useMemo<CaptionCue[]>(
+    () => previewingSession?.srt ? parseCaptions(previewingSession.srt) : [],
+    [previewingSession?.srt]
+  );
+  const transcriptDirty = useMemo(
+    () => !!transcriptDraft && segmentsToSrt(transcriptDraft) !== segmentsToSrt(savedCues),
+    [transcriptDraft, savedCues]
+  );
+  // The overlay follows the transcript draft, so corrections show up as they are typed.
+  const previewCues = useMemo(
+    () => attachWords(transcriptDraft || savedCues, previewingSession?.words),
+    [transcriptDraft, savedCues, previewingSession?.words]
+  );
+  const [webcamVisible, setWebcamVisible] = useState(true);
+  const [pointerEffects, setPointerEffects] = useState<PointerEffects>(loadPointerEffects);
+  const [webcamAppearance, setWebcamAppearance] = useState<WebcamAppearance>(loadWebcamAppearance);
+  const [zoomed, setZoomed] = useState(false);
+  const [annotating, setAnnotating] = useState(false);
+  const [annotationSettings, setAnnotationSettings] = useState<AnnotationSettings>(loadAnnotationSettings);
+  // Where a text annotation is being typed, in percent of the canvas.
+  const [textDraft, setTextDraft] = useState<{ x: number; y: number } | null>(null);
+  // Shift-drag on the preview, in percent of the canvas.
+  const [zoomDrag, setZoomDrag] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+  const [transcriptionJobs, setTranscriptionJobs] = useState<Record<string, TranscriptionProgress>>({});
+  const [conversion, setConversion] = useState<{ label: string; progress: FFmpegProgress } | null>(null);
   
   const [layout, setLayout] = useState<LayoutStyle>('CIRCLE');
+  const [layouts, setLayouts] = useState<LayoutDefinition[]>(getLayouts);
+  const [splitRatio, setSplitRatio] = useState(DEFAULT_SPLIT_RATIO);
+  const [scenes, setScenes] = useState<Scene[]>(loadScenes);
+  const [mixerSettings, setMixerSettings] = useState<MixerSettings>(loadMixerSettings);
+  const [activeSceneId, setActiveSceneId] = useState<string | null>(null);
   const [useWebcam, setUseWebcam] = useState(true);
-  const [quality, setQuality] = useState<QualityConfig>({ resolution: '1080p', fps: 30 });
+  const [quality, setQuality] = useState<QualityConfig>(loadQuality);
   const [webcamId, setWebcamId] = useState('');
   const [micId, setMicId] = useState('');
   const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
 
   const recorderRef = useRef<VideoRecorder | null>(null);
-  const timerRef = useRef<number | null>(null);
+  const resolveLayout = (id: LayoutStyle): LayoutDefinition =>
+    id === 'SPLIT_VERTICAL' ? buildSplitLayout(splitRatio) : (layouts.find(l => l.id === id) || getLayout(id));
+  const activeLayout: LayoutDefinition = useMemo(() => resolveLayout(layout), [layout, layouts, splitRatio]);
+  const conversionAbortRef = useRef<AbortController | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [unfinished, setUnfinished] = useState<PendingRecording[]>([]);
+  const [storageBlocked, setStorageBlocked] = useState(false);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
   const isDraggingRef = useRef(false);
+  // Two-finger pinch on the preview: finger distance and bubble size when it began.
+  const pinchRef = useRef<{ distance: number; size: number } | null>(null);
+
+  useEffect(() => {
+    loadDevices();
+    findUnfinishedRecordings().then(setUnfinished).catch(() => {});
+    refreshStorageEstimate();
+  }, []);
+
+  // The display follows the recorder's clock; it is never counted here, so
+  // throttled timers or pauses can't make it drift from the recording.
+  useEffect(() => {
+    if (!isRecording) return;
+    let frame = 0;
+    const tick = () => {
+      const recorder = recorderRef.current;
+      if (recorder) setElapsed(Math.floor(recorder.getElapsedSeconds()));
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (!isRecording) {
+      setRenderStats(null);
+      setPersistError(null);
+      return;
+    }
+    const id = window.setInterval(() => {
+      setRenderStats(recorderRef.current?.getRenderStats() || null);
+      setPersistError(recorderRef.current?.getPersistError() || null);
+    }, 1000);
+    return () => clearInterval(id);
+  }, [isRecording]);
+
+  // Re-check free space periodically while recording so a long take warns before it fails.
+  useEffect(() => {
+    if (!isRecording) return;
+    const id = window.setInterval(refreshStorageEstimate, 30000);
+    return () => clearInterval(id);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (isRecording && recorderRef.current && canvasContainerRef.current) {
+      const canvas = recorderRef.current.getCanvas();
+      canvas.className = "w-full h-full object-contain cursor-grab active:cursor-grabbing";
+      canvasContainerRef.current.innerHTML = '';
+      canvasContainerRef.current.appendChild(canvas);
+    }
+  }, [isRecording, layout]);
+
+  // One listener for every shortcut; it always calls the latest runCommand so
+  // handlers see current state without re-binding on each render.
+  const commandRef = useRef<(action: HotkeyAction) => void>(() => {});
+  useEffect(() => {
+    if (showShortcuts) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTypingTarget(e.target)) return;
+      const combo = comboFromEvent(e);
+      const action = combo && actionForCombo(hotkeys, combo);
+      if (!action) return;
+      e.preventDefault();
+      commandRef.current(action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [hotkeys, showShortcuts]);
+
+  // Searching scans every summary, so typing is debounced.
+  useEffect(() => {
+    const timer = window.setTimeout(loadSessions, libraryView.filter.text ? 250 : 0);
+    return () => clearTimeout(timer);
+  }, [libraryView]);
+
+  useEffect(() => jobQueue.subscribe(setJobs), [jobQueue]);
+  useEffect(() => subscribeUpgradeBlocked(setStorageBlocked), []);
+
+  // Recordings saved before thumbnails existed get them in the background,
+  // one at a time, as they show up in the Library (never mid-take).
+  const thumbnailAttemptsRef = useRef(new Set<string>());
+  const thumbnailBackfillRef = useRef(false);
+  // Read inside the pass, so a take that starts mid-backfill stops it.
+  const isRecordingRef = useRef(isRecording);
+  isRecordingRef.current = isRecording;
+  const [thumbnailPass, setThumbnailPass] = useState(0);
+  useEffect(() => {
+    if (thumbnailBackfillRef.current || isRecording) return;
+    const missing = sessions.filter(s => !s.thumbnails && !thumbnailAttemptsRef.current.has(s.id));
+    if (missing.length === 0) return;
+    thumbnailBackfillRef.current = true;
+    (async () => {
+      for (const s of missing) {
+        if (isRecordingRef.current) break;
+        thumbnailAttemptsRef.current.add(s.id);
+        try {
+          const full = await getSession(s.id);
+          if (!full) continue;
+          const thumbnails = await captureThumbnails(full.videoBlob, full.durationSeconds);
+          await updateSession(s.id, { thumbnails });
+          setSessions(prev => prev.map(p => p.id === s.id ? { ...p, thumbnails } : p));
+        } catch (e) {
+          // Undecodable in this browser; the card keeps its placeholder.
+        }
+      }
+      thumbnailBackfillRef.current = false;
+      setThumbnailPass(n => n + 1); // pick up anything loaded meanwhile
+    })();
+  }, [sessions, isRecording, thumbnailPass]);
+
+  // Selection only covers what is on screen; a new search or filter drops the rest.
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visible = new Set(sessions.map(s => s.id));
+      const kept = [...prev].filter(id => visible.has(id));
+      return kept.length === prev.size ? prev : new Set(kept);
+    });
+  }, [sessions]);
+
+  const updateLibraryView = (patch: Partial<LibraryView>) => {
+    const view = { ...libraryView, ...patch };
+    saveLibraryView(view);
+    setLibraryView(view);
+  };
+  const updateLibraryFilter = (patch: Partial<SessionFilter>) =>
+    updateLibraryView({ filter: { ...libraryView.filter, ...patch } });
+
+  const loadSessions = async () => {
+    const request = ++libraryRequestRef.current;
+    const page = await getSessionPage(pageQueryFor(libraryView));
+    if (request !== libraryRequestRef.current) return; // a newer view is loading
+    setSessions(page.items);
+    setSessionCursor(page.next);
+  };
+
+  const loadMoreSessions = async () => {
+    if (!sessionCursor) return;
+    const request = libraryRequestRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await getSessionPage({ ...pageQueryFor(libraryView), after: sessionCursor });
+      if (request !== libraryRequestRef.current) return;
+      setSessions(prev => [...prev, ...page.items]);
+      setSessionCursor(page.next);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
 
-  useEffect(() => {
-    loadSessions();
-    loadDevices();
-  }, []);
+  // Library items only carry metadata; media is read from IndexedDB on demand.
+  const resolveSession = async (s: SessionSummary | RecordingSession): Promise<RecordingSession> => {
+    if ('videoBlob' in s) return s;
+    const full = await getSession(s.id);
+    if (!full) throw new Error(`Recording ${s.id} is missing from storage.`);
+    return full;
+  };
 
-  useEffect(() => {
-    if (isRecording && recorderRef.current && canvasContainerRef.current) {
-      const canvas = recorderRef.current.getCanvas();
-      canvas.className = "w-full h-full object-contain cursor-grab active:cursor-grabbing";
-      canvasContainerRef.current.innerHTML = '';
-      canvasContainerRef.current.appendChild(canvas);
+  const openPreview = (session: RecordingSession) => {
+    setPreviewTime(0);
+    setShowEditor(false);
+    setShowZoomEditor(false);
+    setEditDraft(session.edit || emptyEdit(session.durationSeconds));
+    setTranscriptDraft(null);
+    setPreviewingSession(session);
+  };
+
+  const handlePreview = async (s: SessionSummary) => {
+    try {
+      openPreview(await resolveSession(s));
+    } catch (err: any) {
+      alert("Error: " + err.message);
     }
-  }, [isRecording, layout]);
+  };
 
-  const loadSessions = async () => {
-    const s = await getAllSessions();
-    setSessions(s);
+  const handleVideoDownload = async (s: SessionSummary | RecordingSession) => {
+    const session = await resolveSession(s);
+    if (!isIdentityEdit(session.edit, session.durationSeconds)) {
+      // Rendering takes a while; the preview modal is where its progress shows.
+      if (previewingSession?.id !== session.id) openPreview(session);
+      await handleConvert(session, session.videoType);
+      return;
+    }
+    downloadBlob(session.videoBlob, `${session.id}.${session.videoType}`);
+    markExported(session.id);
   };
 
   const loadDevices = async () => {
@@ -147,14 +1626,36 @@ const App: React.FC = () => {
     } catch (e) {}
   };
 
+  const refreshStorageEstimate = async () => {
+    try {
+      setStorageEstimate(await getStorageEstimate());
+    } catch (e) {}
+  };
+
   const startRecording = async () => {
+    const estimate = await getStorageEstimate().catch(() => null);
+    if (estimate) {
+      setStorageEstimate(estimate);
+      const minutes = Math.floor(estimateRecordableSeconds(estimate, quality) / 60);
+      if (minutes < 15 && !confirm(`Only ${formatBytes(estimate.free)} of browser storage is free, roughly ${minutes} minute(s) at ${resolutionLabel(quality)}/${quality.fps}fps. Start anyway?`)) return;
+    }
     try {
       if (!recorderRef.current) recorderRef.current = new VideoRecorder();
-      await recorderRef.current.start(layout, quality, useWebcam, webcamId, micId, true);
+      recorderRef.current.setPointerEffects(pointerEffects);
+      recorderRef.current.setWebcamAppearance(webcamAppearance);
+      // Open the webcam if any scene reachable from this layout needs it, not just the first one.
+      const needsWebcam = usesWebcam(activeLayout) || scenes.some(s => {
+        const l = resolveLayout(s.layoutId);
+        return sameAspect(l, activeLayout) && usesWebcam(l);
+      });
+      await recorderRef.current.start(activeLayout, quality, useWebcam && needsWebcam, webcamId, micId, mixerSettings, activeSceneId || undefined);
       setIsRecording(true);
       setIsPaused(false);
       setElapsed(0);
-      timerRef.current = window.setInterval(() => setElapsed(prev => prev + 1), 1000);
+      setTimeline(null);
+      setLiveMarkers([]);
+      setWebcamVisible(true);
+      setZoomed(false);
     } catch (err: any) {
       alert("Error: " + err.message);
     }
@@ -163,56 +1664,575 @@ const App: React.FC = () => {
   const stopRecording = async () => {
     if (!recorderRef.current) return;
     setIsRecording(false);
-    if (timerRef.current) clearInterval(timerRef.current);
-    const blob = await recorderRef.current.stop();
-    if (blob) {
-      const id = formatTimestamp();
-      await saveSession({
-        id, createdAtISO: new Date().toISOString(), durationSeconds: elapsed,
-        layoutStyle: layout, quality, videoBlob: blob, videoType: 'webm',
-        metadata: { webcamPos: { ...recorderRef.current.webcamPos } }
-      });
+    setTextDraft(null);
+    const output = await recorderRef.current.stop();
+    if (output) {
+      const id = formatSessionId();
+      await saveSession(await withThumbnails({
+        id, createdAtISO: new Date().toISOString(), durationSeconds: Math.round(output.durationSeconds * 1000) / 1000,
+        layoutStyle: output.metadata.layout?.id || layout, quality, videoBlob: output.videoBlob, audioBlob: output.audioBlob, videoType: output.metadata.format?.container || 'webm',
+        metadata: output.metadata
+      }));
+      await deletePendingRecording(output.recordingId);
+      const retention = loadRetentionSettings();
+      if (retention.autoApply) {
+        try {
+          const plan = await planLibraryRetention(retention, [id]);
+          if (!isEmptyRetentionPlan(plan) && confirm(`Retention rules after this recording: ${describeRetentionPlan(plan)}`)) {
+            await applyRetentionPlan(plan);
+          }
+        } catch (err: any) {
+          alert("Retention failed: " + err.message);
+        }
+      }
+      loadSessions();
+      refreshStorageEstimate();
+    }
+  };
+
+  const markExported = (id: string) => {
+    const exportedAtISO = new Date().toISOString();
+    updateSession(id, { exportedAtISO }).catch(() => {});
+    setSessions(prev => prev.map(s => s.id === id ? { ...s, exportedAtISO } : s));
+  };
+
+  const handleRecover = async (pending: PendingRecording) => {
+    setIsRecovering(true);
+    try {
+      await recoverRecording(pending, new Set<string>(await getSessionIds()));
       loadSessions();
+    } catch (err: any) {
+      alert("Recovery failed: " + err.message);
+    } finally {
+      setUnfinished(prev => prev.filter(p => p.id !== pending.id));
+      setIsRecovering(false);
     }
   };
 
+  const handleDiscardUnfinished = async (pending: PendingRecording) => {
+    if (!confirm("Discard this unfinished recording? It cannot be recovered afterwards.")) return;
+    await deletePendingRecording(pending.id);
+    setUnfinished(prev => prev.filter(p => p.id !== pending.id));
+  };
+
   const togglePause = () => {
     if (!recorderRef.current) return;
     if (isPaused) {
       recorderRef.current.resume();
       setIsPaused(false);
-      timerRef.current = window.setInterval(() => setElapsed(prev => prev + 1), 1000);
     } else {
       recorderRef.current.pause();
       setIsPaused(true);
-      if (timerRef.current) clearInterval(timerRef.current);
     }
+    setTimeline(recorderRef.current.getTimeline());
+  };
+
+  const handleZipDownload = async (s: SessionSummary | RecordingSession) => {
+    const session = await resolveSession(s);
+    const content = await buildBundle(session);
+    downloadBlob(content, `${session.id}_bundle.zip`);
+    markExported(session.id);
+  };
+
+  // Shift-click selects everything between the last clicked card and this one.
+  const handleSelect = (id: string, range: boolean) => {
+    const ids = sessions.map(s => s.id);
+    const from = selectionAnchorRef.current ? ids.indexOf(selectionAnchorRef.current) : -1;
+    const to = ids.indexOf(id);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (range && from >= 0 && to >= 0) {
+        ids.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(i => next.add(i));
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    selectionAnchorRef.current = id;
+  };
+
+  const selectedSessions = () => sessions.filter(s => selectedIds.has(s.id));
+
+  const ffmpegReporter = (report: (progress: number, message?: string) => void): FFmpegTaskOptions['onProgress'] =>
+    (p) => report(p.ratio, p.stage === 'loading' ? 'loading FFmpeg' : undefined);
+
+  const handleBatchDelete = () => {
+    const targets = selectedSessions();
+    if (targets.length === 0 || !confirm(`Delete ${targets.length} recording${targets.length === 1 ? '' : 's'}?`)) return;
+    // One job per session, so a failure can be retried on its own and doesn't stop the rest.
+    for (const s of targets) {
+      jobQueue.add('delete', `Delete ${sessionTitle(s)}`, async (signal) => {
+        if (signal.aborted) return;
+        try {
+          await deleteSession(s.id);
+        } finally {
+          refreshLibraryRef.current();
+        }
+      });
+    }
+    setSelectedIds(new Set());
+  };
+
+  const handleBatchZip = (combined: boolean) => {
+    const targets = selectedSessions();
+    if (combined) {
+      jobQueue.add('zip', `ZIP ${targets.length} recordings`, async (signal, report) => {
+        const full: RecordingSession[] = [];
+        for (const s of targets) {
+          if (signal.aborted) return;
+          full.push(await resolveSession(s));
+        }
+        const content = await buildMultiBundle(full, ratio => report(ratio, 'compressing'));
+        if (signal.aborted) return;
+        downloadBlob(content, `${formatSessionId(new Date())}_${targets.length}_bundles.zip`);
+        targets.forEach(s => markExported(s.id));
+      });
+      return;
+    }
+    for (const s of targets) {
+      jobQueue.add('zip', `ZIP ${sessionTitle(s)}`, async (signal) => {
+        const content = await buildBundle(await resolveSession(s));
+        if (signal.aborted) return;
+        downloadBlob(content, `${s.id}_bundle.zip`);
+        markExported(s.id);
+      });
+    }
+  };
+
+  const handleBatchMp4 = () => {
+    for (const s of selectedSessions()) {
+      jobQueue.add('mp4', `MP4 ${sessionTitle(s)}`, async (signal, report) => {
+        const { blob, filename } = await exportMedia(await resolveSession(s), 'mp4', { signal, onProgress: ffmpegReporter(report) });
+        downloadBlob(blob, filename);
+        markExported(s.id);
+      });
+    }
+  };
+
+  const handleBatchTranscribe = () => {
+    for (const s of selectedSessions()) {
+      jobQueue.add('transcribe', `Transcribe ${sessionTitle(s)}`, async (signal, report) => {
+        // Read settings at run time so a retry picks up a fixed API key.
+        const updated = await transcribeSession(
+          await resolveSession(s),
+          loadTranscriptionSettings(),
+          (p) => report(TRANSCRIPTION_STAGE_PROGRESS[p.stage] ?? 0, p.stage),
+          signal
+        );
+        setPreviewingSession(prev => prev && prev.id === updated.id ? updated : prev);
+        refreshLibraryRef.current();
+      });
+    }
+  };
+
+  const handleSaveSettings = (settings: TranscriptionSettings) => {
+    saveTranscriptionSettings(settings);
+    setTranscriptionSettings(settings);
+  };
+
+  const handleTranscribe = async (s: SessionSummary | RecordingSession) => {
+    const setJob = (p: TranscriptionProgress) => setTranscriptionJobs(prev => ({ ...prev, [s.id]: p }));
+    try {
+      setJob({ stage: 'preparing' });
+      const session = await resolveSession(s);
+      const updated = await transcribeSession(session, transcriptionSettings, setJob);
+      setPreviewingSession(prev => prev && prev.id === updated.id ? updated : prev);
+      loadSessions();
+    } catch (err: any) {
+      setJob({ stage: 'error', message: err.message });
+    }
+  };
+
+  // Applies the saved edit, if any, on the way out.
+  const exportMedia = async (session: RecordingSession, target: 'webm' | 'mp4' | 'mp3' | 'wav', options: FFmpegTaskOptions) => {
+    const edited = !isIdentityEdit(session.edit, session.durationSeconds);
+    const segments = edited ? keptSegments(session.edit!, session.durationSeconds) : undefined;
+    let blob: Blob;
+    if (target === 'mp3' || target === 'wav') {
+      blob = await extractAudio(session.audioBlob || session.videoBlob, target, options, segments);
+    } else if (segments) {
+      const info = session.videoType === 'webm' ? await inspectWebm(session.videoBlob).catch(() => null) : null;
+      blob = await renderEdit(session.videoBlob, segments, target, {
+        ...options,
+        hasAudio: info ? info.hasAudio : true,
+        streamCopy: !!info && canStreamCopy(segments, info.keyframes)
+      });
+    } else {
+      blob = await changeContainer(session.videoBlob, session.durationSeconds, target, options);
+    }
+    return { blob, filename: `${session.id}${edited ? '_edited' : ''}.${target}` };
+  };
+
+  const handleConvert = async (session: RecordingSession, target: 'webm' | 'mp4' | 'mp3' | 'wav') => {
+    const controller = new AbortController();
+    conversionAbortRef.current = controller;
+    const label = target.toUpperCase();
+    const options = {
+      signal: controller.signal,
+      onProgress: (progress: FFmpegProgress) => setConversion({ label, progress })
+    };
+    setConversion({ label, progress: { stage: 'loading', ratio: 0, timeSeconds: 0 } });
+    try {
+      const { blob, filename } = await exportMedia(session, target, options);
+      downloadBlob(blob, filename);
+      markExported(session.id);
+    } catch (err: any) {
+      if (!(err instanceof FFmpegCancelledError)) alert("Conversion failed: " + err.message);
+    } finally {
+      conversionAbortRef.current = null;
+      setConversion(null);
+    }
+  };
+
+  const handleCaptionStyleChange = (style: CaptionStyle) => {
+    saveCaptionStyle(style);
+    setCaptionStyle(style);
+  };
+
+  // Captions follow the saved edit, so sidecars line up with edited exports.
+  const handleCaptionDownload = (session: RecordingSession, format: 'srt' | 'vtt') => {
+    if (!session.srt) return;
+    const edited = !isIdentityEdit(session.edit, session.durationSeconds);
+    const cues = parseCaptions(session.srt);
+    const srt = segmentsToSrt(edited ? retimeCues(cues, keptSegments(session.edit!, session.durationSeconds)) : cues);
+    const text = format === 'srt' ? srt : srtToVtt(srt);
+    const blob = new Blob([text], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+    downloadBlob(blob, `${session.id}${edited ? '_edited' : ''}.${format}`);
+  };
+
+  // Burn-in plays the original take, so captions stay on its timeline; the
+  // edit is applied to the captioned result afterwards.
+  const handleBurnIn = async (session: RecordingSession, target: 'webm' | 'mp4') => {
+    if (!session.srt) return;
+    const controller = new AbortController();
+    conversionAbortRef.current = controller;
+    const reporter = (label: string) => (progress: FFmpegProgress) => setConversion({ label, progress });
+    setConversion({ label: 'captions', progress: { stage: 'processing', ratio: 0, timeSeconds: 0 } });
+    try {
+      const cues = attachWords(parseCaptions(session.srt), session.words);
+      const fps = session.metadata.render?.targetFps || session.quality.fps;
+      let blob = await burnInCaptions(session.videoBlob, session.durationSeconds, cues, captionStyle, fps, {
+        signal: controller.signal,
+        onProgress: reporter('captions')
+      });
+      const edited = !isIdentityEdit(session.edit, session.durationSeconds);
+      const options = { signal: controller.signal, onProgress: reporter(target.toUpperCase()) };
+      if (edited) blob = await renderEdit(blob, keptSegments(session.edit!, session.durationSeconds), target, options);
+      else blob = await changeContainer(blob, session.durationSeconds, target, options);
+      downloadBlob(blob, `${session.id}${edited ? '_edited' : ''}_captioned.${target}`);
+      markExported(session.id);
+    } catch (err: any) {
+      if (!(err instanceof FFmpegCancelledError)) alert("Caption burn-in failed: " + err.message);
+    } finally {
+      conversionAbortRef.current = null;
+      setConversion(null);
+    }
+  };
+
+  const handleSessionDetails = async (session: RecordingSession, patch: Pick<SessionSummary, 'title' | 'tags'>) => {
+    const keys = Object.keys(patch) as (keyof typeof patch)[];
+    if (keys.every(k => JSON.stringify(patch[k]) === JSON.stringify(session[k]))) return;
+    try {
+      await updateSession(session.id, patch);
+      setPreviewingSession(prev => prev && prev.id === session.id ? { ...prev, ...patch } : prev);
+      setSessions(prev => prev.map(s => s.id === session.id ? { ...s, ...patch } : s));
+    } catch (err: any) {
+      alert("Could not save the details: " + err.message);
+    }
+  };
+
+  const toggleTranscript = () => {
+    if (!transcriptDraft) setTranscriptDraft(savedCues);
+    else if (!transcriptDirty || confirm("Discard transcript changes?")) setTranscriptDraft(null);
+  };
+
+  const handleSaveTranscript = async () => {
+    if (!previewingSession || !transcriptDraft) return;
+    const cues = transcriptDraft.filter(c => c.text.trim());
+    // Words follow the edited cues, so karaoke and words.json match the captions.
+    const patch = { srt: segmentsToSrt(cues), transcript: cuesToTranscript(cues), words: realignWords(cues, previewingSession.words) };
+    try {
+      await updateSession(previewingSession.id, patch);
+      setPreviewingSession({ ...previewingSession, ...patch });
+      setSessions(prev => prev.map(s => s.id === previewingSession.id ? { ...s, ...patch } : s));
+      setTranscriptDraft(cues);
+    } catch (err: any) {
+      alert("Could not save the transcript: " + err.message);
+    }
+  };
+
+  const handleSaveZoomTimeline = async (zoomTimeline: ZoomKeyframe[]) => {
+    if (!previewingSession) return;
+    const metadata = { ...previewingSession.metadata, zoomTimeline };
+    try {
+      await updateSession(previewingSession.id, { metadata });
+      setPreviewingSession({ ...previewingSession, metadata });
+      setSessions(prev => prev.map(s => s.id === previewingSession.id ? { ...s, metadata } : s));
+    } catch (err: any) {
+      alert("Could not save the zoom keyframes: " + err.message);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!previewingSession || !editDraft) return;
+    const duration = previewingSession.durationSeconds;
+    const edit = isIdentityEdit(editDraft, duration) ? undefined : normalizeEdit(editDraft, duration);
+    try {
+      await updateSession(previewingSession.id, { edit });
+      setPreviewingSession({ ...previewingSession, edit });
+      setSessions(prev => prev.map(s => s.id === previewingSession.id ? { ...s, edit } : s));
+    } catch (err: any) {
+      alert("Could not save the edit: " + err.message);
+    }
+  };
+
+  // While "Play edit" is on, playback jumps over trimmed and cut ranges.
+  const handlePreviewTimeUpdate = (video: HTMLVideoElement) => {
+    const t = video.currentTime;
+    setPreviewTime(t);
+    if (!showEditor || !playEdited || !previewingSession || !editDraft || video.paused) return;
+    const next = nextKeptTime(keptSegments(editDraft, previewingSession.durationSeconds), t);
+    if (next === null) video.pause();
+    else if (next - t > 0.05) video.currentTime = next;
+  };
+
+  const selectLayout = (id: LayoutStyle, sceneId?: string) => {
+    if (isRecording && recorderRef.current) {
+      try {
+        recorderRef.current.switchLayout(resolveLayout(id), sceneId);
+      } catch (err: any) {
+        alert(err.message);
+        return;
+      }
+    }
+    setLayout(id);
+    setActiveSceneId(sceneId || null);
+  };
+
+  const runCommand = (action: HotkeyAction) => {
+    const recorder = recorderRef.current;
+    switch (action) {
+      case 'toggleRecording':
+        if (isRecording) stopRecording();
+        else startRecording();
+        return;
+      case 'togglePause':
+        if (isRecording) togglePause();
+        return;
+      case 'marker':
+        handleMarker();
+        return;
+      case 'nextScene': {
+        const reachable = scenes.filter(s => !isRecording || sameAspect(resolveLayout(s.layoutId), activeLayout));
+        if (reachable.length === 0) return;
+        const current = reachable.findIndex(s => s.id === activeSceneId);
+        const next = reachable[(current + 1) % reachable.length];
+        selectLayout(next.layoutId, next.id);
+        return;
+      }
+      case 'toggleWebcam':
+        if (isRecording && recorder) {
+          const visible = !recorder.isWebcamVisible();
+          recorder.setWebcamVisible(visible);
+          setWebcamVisible(recorder.isWebcamVisible());
+        } else {
+          setUseWebcam(v => !v);
+        }
+        return;
+      case 'toggleZoom':
+        toggleZoom();
+        return;
+      case 'toggleAnnotate':
+        if (isRecording) setAnnotating(a => !a);
+        return;
+      case 'undoAnnotation':
+        if (isRecording) recorder?.undoAnnotation();
+        return;
+      case 'toggleMicMute':
+        handleMixerChange({ ...mixerSettings, channels: { ...mixerSettings.channels, mic: { ...mixerSettings.channels.mic, muted: !mixerSettings.channels.mic.muted } } });
+        return;
+      case 'nudgeUp':
+      case 'nudgeDown':
+      case 'nudgeLeft':
+      case 'nudgeRight': {
+        if (!isRecording || !recorder || !hasMovableRegion(activeLayout)) return;
+        const dx = action === 'nudgeLeft' ? -NUDGE_STEP : action === 'nudgeRight' ? NUDGE_STEP : 0;
+        const dy = action === 'nudgeUp' ? -NUDGE_STEP : action === 'nudgeDown' ? NUDGE_STEP : 0;
+        recorder.updateWebcamPos(recorder.webcamPos.x + dx, recorder.webcamPos.y + dy);
+        return;
+      }
+      default: {
+        const slot = parseInt(action.replace('scene', ''), 10);
+        const scene = scenes[slot - 1];
+        if (scene) selectLayout(scene.layoutId, scene.id);
+      }
+    }
+  };
+  commandRef.current = runCommand;
+  refreshLibraryRef.current = () => {
+    loadSessions();
+    refreshStorageEstimate();
+  };
+
+  const handleMarker = () => {
+    const recorder = recorderRef.current;
+    if (recorder?.addMarker()) setLiveMarkers(recorder.getMarkers());
+  };
+
+  const handleRenameMarker = (index: number, label: string) => {
+    recorderRef.current?.renameMarker(index, label);
+    setLiveMarkers(prev => prev.map((m, i) => i === index ? { ...m, label } : m));
+  };
+
+  const handleSaveHotkeys = (next: HotkeyBindings) => {
+    saveHotkeys(next);
+    setHotkeys(next);
+    setShowShortcuts(false);
   };
 
-  const handleZipDownload = async (session: RecordingSession) => {
-    const zip = new JSZip();
-    zip.file(`${session.id}.webm`, session.videoBlob);
-    zip.file("metadata.json", JSON.stringify({
-      id: session.id,
-      date: session.createdAtISO,
-      duration: session.durationSeconds,
-      layout: session.layoutStyle,
-      quality: session.quality
-    }, null, 2));
-    const content = await zip.generateAsync({ type: "blob" });
-    triggerDownload(URL.createObjectURL(content), `${session.id}_bundle.zip`);
+  const handleQualityChange = (next: QualityConfig) => {
+    setQuality(next);
+    saveQuality(next);
+  };
+
+  const handlePointerEffectsChange = (next: PointerEffects) => {
+    setPointerEffects(next);
+    savePointerEffects(next);
+    recorderRef.current?.setPointerEffects(next);
+  };
+
+  const handleWebcamAppearanceChange = (next: WebcamAppearance) => {
+    setWebcamAppearance(next);
+    saveWebcamAppearance(next);
+    recorderRef.current?.setWebcamAppearance(next);
+  };
+
+  const resizeWebcam = (size: number) => {
+    const current = recorderRef.current?.getWebcamAppearance();
+    if (current) handleWebcamAppearanceChange({ ...current, size: clampWebcamSize(size) });
+  };
+
+  // React's wheel listener is passive, so scrolling the page can't be prevented from it.
+  useEffect(() => {
+    const el = previewRef.current;
+    if (!el || !isRecording || !hasMovableRegion(activeLayout)) return;
+    const onWheel = (e: WheelEvent) => {
+      const current = recorderRef.current?.getWebcamAppearance();
+      if (!current) return;
+      e.preventDefault();
+      resizeWebcam(current.size * (e.deltaY < 0 ? 1.1 : 0.9));
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [isRecording, activeLayout]);
+
+  const handleAnnotationSettingsChange = (next: AnnotationSettings) => {
+    setAnnotationSettings(next);
+    saveAnnotationSettings(next);
+  };
+
+  const toggleZoom = () => {
+    const recorder = recorderRef.current;
+    if (!isRecording || !recorder) return;
+    recorder.toggleZoom();
+    setZoomed(recorder.isZoomed());
+  };
+
+  const handleMixerChange = (next: MixerSettings) => {
+    setMixerSettings(next);
+    saveMixerSettings(next);
+    recorderRef.current?.getMixer()?.apply(next);
+  };
+
+  const handleAddScene = () => {
+    const name = prompt("Name this scene:", activeLayout.name);
+    if (!name) return;
+    const scene = createScene(name, layout);
+    const next = [...scenes, scene];
+    saveScenes(next);
+    setScenes(next);
+    setActiveSceneId(scene.id);
+  };
+
+  const handleDeleteScene = (id: string) => {
+    const next = scenes.filter(s => s.id !== id);
+    saveScenes(next);
+    setScenes(next);
+    if (activeSceneId === id) setActiveSceneId(null);
+  };
+
+  const handleSaveCustomLayout = () => {
+    const name = prompt("Name this layout:", `${activeLayout.name} (custom)`);
+    if (!name) return;
+    const { id, custom, ...definition } = activeLayout;
+    const saved = saveCustomLayout({ ...definition, name });
+    setLayouts(getLayouts());
+    setLayout(saved.id);
+  };
+
+  const handleDeleteCustomLayout = (id: LayoutStyle) => {
+    if (!confirm("Delete this custom layout?")) return;
+    deleteCustomLayout(id);
+    setLayouts(getLayouts());
+    if (layout === id) setLayout('CIRCLE');
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsImporting(true);
+    const taken = new Set<string>(await getSessionIds());
+    const failures: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        for (const session of await importFile(file)) {
+          if (taken.has(session.id)) {
+            if (!confirm(`A recording named ${session.id} is already in the Library. Import it from ${file.name} as a copy?`)) continue;
+            session.id = nextFreeSessionId(session.id, taken);
+          }
+          await saveSession(await withThumbnails(session));
+          taken.add(session.id);
+        }
+      } catch (err: any) {
+        failures.push(`${file.name}: ${err.message}`);
+      }
+    }
+    setIsImporting(false);
+    if (importInputRef.current) importInputRef.current.value = '';
+    loadSessions();
+    if (failures.length > 0) alert("Some files could not be imported:\n\n" + failures.join("\n"));
   };
 
   const handleCanvasInteraction = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isRecording || layout !== 'CIRCLE' || !recorderRef.current) return;
+    const recorder = recorderRef.current;
+    if (!isRecording || !recorder) return;
     
-    const canvas = recorderRef.current.getCanvas();
+    const canvas = recorder.getCanvas();
     const rect = canvas.getBoundingClientRect();
+
+    if ('touches' in e && (e.touches.length === 2 || pinchRef.current)) {
+      if (e.touches.length < 2 || !hasMovableRegion(activeLayout)) {
+        pinchRef.current = null;
+        return;
+      }
+      const [a, b] = [e.touches[0], e.touches[1]];
+      const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+      if (!pinchRef.current) {
+        isDraggingRef.current = false;
+        pinchRef.current = { distance, size: recorder.getWebcamAppearance().size };
+      } else if (pinchRef.current.distance > 0) {
+        resizeWebcam(pinchRef.current.size * distance / pinchRef.current.distance);
+      }
+      return;
+    }
     
     let clientX, clientY;
     if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
+      // touchend has no remaining touches; the lifted finger is in changedTouches.
+      const touch = e.touches[0] || e.changedTouches[0];
+      clientX = touch.clientX;
+      clientY = touch.clientY;
     } else {
       clientX = (e as React.MouseEvent).clientX;
       clientY = (e as React.MouseEvent).clientY;
@@ -220,14 +2240,43 @@ const App: React.FC = () => {
 
     const x = ((clientX - rect.left) / rect.width) * 100;
     const y = ((clientY - rect.top) / rect.height) * 100;
+    const canMoveWebcam = hasMovableRegion(activeLayout);
 
     if (e.type === 'mousedown' || e.type === 'touchstart') {
-      isDraggingRef.current = true;
-      recorderRef.current.updateWebcamPos(x, y);
-    } else if ((e.type === 'mousemove' || e.type === 'touchmove') && isDraggingRef.current) {
-      recorderRef.current.updateWebcamPos(x, y);
+      recorder.updatePointer({ x, y });
+      if (e.shiftKey) {
+        setZoomDrag({ x0: x, y0: y, x1: x, y1: y });
+        return;
+      }
+      if (annotating) {
+        if (annotationSettings.tool === 'text') {
+          // A click away from an open box commits it (on blur) rather than starting another.
+          if (!textDraft) setTextDraft({ x, y });
+        } else {
+          recorder.beginAnnotation(annotationSettings, x, y);
+        }
+        return;
+      }
+      recorder.click(x, y);
+      if (canMoveWebcam) {
+        isDraggingRef.current = true;
+        recorder.updateWebcamPos(x, y);
+      }
+    } else if (e.type === 'mousemove' || e.type === 'touchmove') {
+      recorder.updatePointer({ x, y });
+      if (zoomDrag) setZoomDrag({ ...zoomDrag, x1: x, y1: y });
+      else if (annotating) recorder.extendAnnotation(x, y);
+      else if (isDraggingRef.current && canMoveWebcam) recorder.updateWebcamPos(x, y);
     } else if (e.type === 'mouseup' || e.type === 'touchend' || e.type === 'mouseleave') {
       isDraggingRef.current = false;
+      recorder.endAnnotation();
+      if (e.type === 'mouseleave') recorder.updatePointer(null);
+      if (zoomDrag) {
+        const x0 = Math.min(zoomDrag.x0, x), y0 = Math.min(zoomDrag.y0, y);
+        recorder.zoomToCanvasRect({ x: x0, y: y0, w: Math.abs(x - zoomDrag.x0), h: Math.abs(y - zoomDrag.y0) });
+        setZoomed(recorder.isZoomed());
+        setZoomDrag(null);
+      }
     }
   };
 
@@ -244,6 +2293,12 @@ const App: React.FC = () => {
               <button onClick={() => setActiveTab('record')} className={`px-6 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${activeTab === 'record' ? 'bg-red-600 text-white' : 'text-white/40 hover:text-white'}`}>Record</button>
               <button onClick={() => setActiveTab('library')} className={`px-6 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${activeTab === 'library' ? 'bg-red-600 text-white' : 'text-white/40 hover:text-white'}`}>Library</button>
             </nav>
+            <button onClick={() => setShowSettings(true)} className="p-2 bg-white/5 border border-white/5 rounded-xl hover:bg-white/10 transition-colors">
+              <Settings className="w-4 h-4 text-white/60" />
+            </button>
+            <button onClick={() => setShowShortcuts(true)} className="p-2 bg-white/5 border border-white/5 rounded-xl hover:bg-white/10 transition-colors" title="Keyboard shortcuts">
+              <Keyboard className="w-4 h-4 text-white/60" />
+            </button>
             <button onClick={() => setShowInstructions(true)} className="p-2 bg-white/5 border border-white/5 rounded-xl hover:bg-white/10 transition-colors">
               <Info className="w-4 h-4 text-white/60" />
             </button>
@@ -251,6 +2306,12 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {storageBlocked && (
+        <div className="bg-red-600/10 border-b border-red-600/30 px-6 py-2 text-center text-xs font-bold text-red-400 shrink-0">
+          DecDecRec is open in another tab. Close it so this one can update its storage; recordings and the library are unavailable until then.
+        </div>
+      )}
+
       <main className="flex-grow overflow-y-auto px-6 py-4 scroll-smooth">
         <div className="max-w-7xl mx-auto h-full flex flex-col">
           {activeTab === 'record' && (
@@ -263,9 +2324,76 @@ const App: React.FC = () => {
                   <p className="text-xs text-white/40 font-medium">Fast, high-quality capture.</p>
                 </div>
 
-                <div className="grid grid-cols-2 gap-2 shrink-0">
-                  <button onClick={() => setLayout('CIRCLE')} disabled={isRecording} className={`py-3 px-3 text-[10px] font-black uppercase tracking-widest rounded-xl border transition-all ${layout === 'CIRCLE' ? 'bg-white text-black border-white' : 'border-white/5 hover:bg-white/5 text-white/40'}`}>Overlay</button>
-                  <button onClick={() => setLayout('SHORTS')} disabled={isRecording} className={`py-3 px-3 text-[10px] font-black uppercase tracking-widest rounded-xl border transition-all ${layout === 'SHORTS' ? 'bg-white text-black border-white' : 'border-white/5 hover:bg-white/5 text-white/40'}`}>Shorts</button>
+                {!isRecording && unfinished.map(p => (
+                  <div key={p.id} className="bg-red-600/10 border border-red-600/30 p-4 rounded-xl space-y-3 shrink-0">
+                    <div className="space-y-0.5">
+                      <p className="text-[10px] font-black uppercase tracking-widest text-red-500">Unfinished recording found</p>
+                      <p className="text-[10px] text-white/60">Started {new Date(p.startedAtISO).toLocaleString()} · {formatDuration(p.elapsedSeconds)} saved</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={() => handleRecover(p)} disabled={isRecovering} className="flex-1 py-2 bg-white text-black rounded-lg font-black text-[9px] uppercase tracking-widest disabled:opacity-40">Recover</button>
+                      <button onClick={() => handleDiscardUnfinished(p)} disabled={isRecovering} className="flex-1 py-2 border border-white/10 bg-white/5 rounded-lg font-black text-[9px] uppercase tracking-widest disabled:opacity-40">Discard</button>
+                    </div>
+                  </div>
+                ))}
+
+                <div className="space-y-2 shrink-0">
+                  <div className="grid grid-cols-2 gap-2">
+                    {layouts.map(l => (
+                      <div key={l.id} className="relative group/layout">
+                        <button onClick={() => selectLayout(l.id)} disabled={isRecording && !sameAspect(l, activeLayout)} className={`w-full py-3 px-3 text-[10px] font-black uppercase tracking-widest rounded-xl border transition-all truncate disabled:opacity-20 ${layout === l.id ? 'bg-white text-black border-white' : 'border-white/5 hover:bg-white/5 text-white/40'}`}>{l.name}</button>
+                        {l.custom && !isRecording && (
+                          <button onClick={() => handleDeleteCustomLayout(l.id)} className="absolute -top-1.5 -right-1.5 p-0.5 bg-black border border-white/10 rounded-full opacity-0 group-hover/layout:opacity-100 transition-all" title="Delete layout">
+                            <X className="w-2.5 h-2.5 text-white/60" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {layout === 'SPLIT_VERTICAL' && (
+                    <div className="flex items-center gap-3 px-1">
+                      <label className="text-[9px] text-white/40 font-black uppercase tracking-widest shrink-0">Split</label>
+                      <input type="range" min={0.2} max={0.8} step={0.05} value={splitRatio} onChange={(e) => setSplitRatio(parseFloat(e.target.value))} disabled={isRecording} className="flex-grow accent-red-600" />
+                      <span className="text-[9px] text-white/40 font-black tabular-nums">{Math.round(splitRatio * 100)}/{Math.round((1 - splitRatio) * 100)}</span>
+                    </div>
+                  )}
+                  {!isRecording && (
+                    <button onClick={handleSaveCustomLayout} className="w-full py-1.5 text-[9px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-all">
+                      Save as Custom Layout
+                    </button>
+                  )}
+                </div>
+
+                <div className="space-y-2 shrink-0">
+                  <div className="flex items-center justify-between px-1">
+                    <label className="text-[9px] text-white/40 font-black uppercase tracking-widest">Scenes</label>
+                    {!isRecording && (
+                      <button onClick={handleAddScene} className="text-[9px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-all">+ Add Current</button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {scenes.map((scene, i) => {
+                      const compatible = !isRecording || sameAspect(resolveLayout(scene.layoutId), activeLayout);
+                      return (
+                        <div key={scene.id} className="relative group/scene">
+                          <button
+                            onClick={() => selectLayout(scene.layoutId, scene.id)}
+                            disabled={!compatible}
+                            className={`flex items-center gap-2 py-2 px-3 text-[9px] font-black uppercase tracking-widest rounded-lg border transition-all disabled:opacity-20 ${activeSceneId === scene.id ? 'bg-red-600 border-red-600 text-white' : 'border-white/5 bg-white/5 hover:bg-white/10 text-white/60'}`}
+                          >
+                            {i < 9 && hotkeys[`scene${i + 1}` as HotkeyAction] && <kbd className="px-1 rounded bg-black/40 text-[8px] font-mono">{formatCombo(hotkeys[`scene${i + 1}` as HotkeyAction])}</kbd>}
+                            {scene.name}
+                          </button>
+                          {!isRecording && (
+                            <button onClick={() => handleDeleteScene(scene.id)} className="absolute -top-1.5 -right-1.5 p-0.5 bg-black border border-white/10 rounded-full opacity-0 group-hover/scene:opacity-100 transition-all" title="Delete scene">
+                              <X className="w-2.5 h-2.5 text-white/60" />
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {scenes.length > 0 && <p className="text-[9px] text-white/20 px-1">Use the scene shortcuts to cut between scenes while recording.</p>}
                 </div>
 
                 <div className="space-y-4 bg-[#0a0a0a] border border-white/10 p-4 rounded-xl shrink-0">
@@ -286,7 +2414,38 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
-                <div className="mt-auto pt-2 shrink-0">
+                <QualityPanel quality={quality} onChange={handleQualityChange} disabled={isRecording} />
+
+                <div className="space-y-2 bg-[#0a0a0a] border border-white/10 p-4 rounded-xl shrink-0">
+                  <label className="flex items-center gap-1.5 text-[9px] text-white/40 font-black uppercase tracking-widest">
+                    <MousePointerClick className="w-3 h-3" /> Pointer
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => handlePointerEffectsChange({ ...pointerEffects, clickRipples: !pointerEffects.clickRipples })} className={`py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border transition-all ${pointerEffects.clickRipples ? 'bg-white text-black border-white' : 'border-white/5 bg-white/5 text-white/40'}`}>Click Ripples</button>
+                    <button onClick={() => handlePointerEffectsChange({ ...pointerEffects, spotlight: !pointerEffects.spotlight })} className={`py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border transition-all ${pointerEffects.spotlight ? 'bg-white text-black border-white' : 'border-white/5 bg-white/5 text-white/40'}`}>Spotlight</button>
+                  </div>
+                  <p className="text-[9px] text-white/20 px-1">Follows your pointer over the live preview. Shift-drag there to zoom into an area; {formatCombo(hotkeys.toggleZoom)} zooms in at the pointer and back out.</p>
+                </div>
+
+                <WebcamPanel appearance={webcamAppearance} onChange={handleWebcamAppearanceChange} layoutDivider={activeLayout.dividers?.[0]} />
+
+                <MixerPanel
+                  settings={mixerSettings}
+                  onChange={handleMixerChange}
+                  mixer={isRecording ? recorderRef.current?.getMixer() || null : null}
+                  isRecording={isRecording}
+                />
+
+                <div className="mt-auto pt-2 shrink-0 space-y-2">
+                  {storageEstimate && (() => {
+                    const minutes = Math.floor(estimateRecordableSeconds(storageEstimate, quality) / 60);
+                    const low = minutes < (isRecording ? 5 : 15);
+                    return (
+                      <p className={`text-[9px] font-black uppercase tracking-widest text-center ${low ? 'text-red-500' : 'text-white/30'}`}>
+                        {low && isRecording ? 'Storage almost full · ' : ''}~{minutes >= 120 ? `${Math.floor(minutes / 60)} h` : `${minutes} min`} of space at this quality
+                      </p>
+                    );
+                  })()}
                   {!isRecording ? (
                     <button onClick={startRecording} className="group w-full py-5 bg-red-600 text-white font-black text-xs uppercase tracking-[0.2em] hover:bg-red-500 transition-all rounded-xl shadow-lg flex items-center justify-center gap-3">
                       <div className="w-2 h-2 bg-white rounded-full animate-pulse" /> START CAPTURE
@@ -297,6 +2456,12 @@ const App: React.FC = () => {
                         <button onClick={togglePause} className="flex-1 py-3 border border-white/10 bg-white/5 rounded-lg font-black text-[9px] uppercase tracking-widest">
                           {isPaused ? 'Resume' : 'Pause'}
                         </button>
+                        <button onClick={handleMarker} className="px-4 py-3 border border-white/10 bg-white/5 rounded-lg" title={`Drop a marker (${formatCombo(hotkeys.marker)})`}>
+                          <Flag className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={toggleZoom} className={`px-4 py-3 border rounded-lg ${zoomed ? 'bg-red-600 border-red-600' : 'border-white/10 bg-white/5'}`} title={`${zoomed ? 'Zoom out' : 'Zoom in at pointer'} (${formatCombo(hotkeys.toggleZoom)}) · Shift-drag on the preview to zoom into an area`}>
+                          {zoomed ? <ZoomOut className="w-3.5 h-3.5" /> : <ZoomIn className="w-3.5 h-3.5" />}
+                        </button>
                         <button onClick={stopRecording} className="flex-1 py-3 bg-white text-black rounded-lg font-black text-[9px] uppercase tracking-widest flex items-center justify-center gap-2">
                           <StopCircle className="w-3.5 h-3.5" /> Stop
                         </button>
@@ -304,6 +2469,44 @@ const App: React.FC = () => {
                       <div className="text-center py-3 bg-[#0a0a0a] rounded-lg border border-white/10 font-mono text-3xl tabular-nums tracking-tighter text-white">
                         {formatDuration(elapsed)}
                       </div>
+                      {renderStats && (
+                        <p className={`text-[9px] font-black uppercase tracking-widest text-center ${renderStats.framesDropped > 0 ? 'text-yellow-500' : 'text-white/30'}`} title={renderStats.mode === 'worker' ? 'Compositing in a background worker' : `Compositing on the main thread; keep this tab visible to avoid stutter. ${renderStats.fallbackReason || ''}`}>
+                          {renderStats.mode === 'worker' ? 'Worker' : 'Main thread'} · {renderStats.targetFps} fps · {renderStats.framesDropped} dropped · {renderStats.avgRenderMs.toFixed(1)} ms/frame
+                        </p>
+                      )}
+                      {renderStats?.error && (
+                        <p className="text-[10px] text-center text-red-500">
+                          <span className="font-black uppercase tracking-widest text-[9px]">Compositing failed</span> · {renderStats.error}. Stop and start a new take.
+                        </p>
+                      )}
+                      {persistError && (
+                        <p className="text-[10px] text-center text-red-500">
+                          <span className="font-black uppercase tracking-widest text-[9px]">Crash recovery off</span> · {persistError}
+                        </p>
+                      )}
+                      {timeline && timeline.pausedSeconds > 0 && (
+                        <p className="text-[9px] font-black uppercase tracking-widest text-center text-white/30">
+                          {timeline.segments.length - (isPaused ? 0 : 1)} pause{timeline.segments.length - (isPaused ? 0 : 1) === 1 ? '' : 's'} · {formatDuration(timeline.pausedSeconds)} paused
+                        </p>
+                      )}
+                      {(!webcamVisible || mixerSettings.channels.mic.muted) && (
+                        <p className="text-[9px] font-black uppercase tracking-widest text-center text-white/40">
+                          {[
+                            !webcamVisible && 'Webcam hidden',
+                            mixerSettings.channels.mic.muted && 'Mic muted'
+                          ].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                      {liveMarkers.length > 0 && (
+                        <div className="max-h-32 overflow-y-auto space-y-1">
+                          {liveMarkers.map((m, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                              <span className="text-[9px] font-mono text-white/40 w-10 shrink-0">{formatChapterTimestamp(m.t)}</span>
+                              <input value={m.label || ''} onChange={(e) => handleRenameMarker(i, e.target.value)} className="flex-grow bg-black border border-white/10 px-2 py-1 text-[10px] font-bold rounded-md outline-none focus:border-white/30" />
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -311,7 +2514,9 @@ const App: React.FC = () => {
 
               <div className="lg:col-span-8 h-full flex items-center">
                 <div 
-                  className={`bg-[#050505] rounded-[1.5rem] overflow-hidden border border-white/10 shadow-2xl relative flex items-center justify-center w-full transition-all duration-500 touch-none ${layout === 'SHORTS' ? 'aspect-[9/16] max-h-[calc(100vh-180px)]' : 'aspect-video max-h-[calc(100vh-180px)]'}`}
+                  ref={previewRef}
+                  className={`bg-[#050505] rounded-[1.5rem] overflow-hidden border border-white/10 shadow-2xl relative flex items-center justify-center w-full transition-all duration-500 touch-none max-h-[calc(100vh-180px)] ${isRecording && annotating ? 'cursor-crosshair' : ''}`}
+                  style={{ aspectRatio: `${activeLayout.aspect.w} / ${activeLayout.aspect.h}` }}
                   onMouseDown={handleCanvasInteraction}
                   onMouseMove={handleCanvasInteraction}
                   onMouseUp={handleCanvasInteraction}
@@ -321,6 +2526,41 @@ const App: React.FC = () => {
                   onTouchEnd={handleCanvasInteraction}
                 >
                   <div ref={canvasContainerRef} className="w-full h-full pointer-events-none"></div>
+                  {isRecording && textDraft && (
+                    <AnnotationTextInput
+                      key={`${textDraft.x},${textDraft.y}`}
+                      x={textDraft.x}
+                      y={textDraft.y}
+                      color={annotationSettings.color}
+                      onCommit={(text) => {
+                        recorderRef.current?.addTextAnnotation(annotationSettings, textDraft.x, textDraft.y, text);
+                        setTextDraft(null);
+                      }}
+                      onCancel={() => setTextDraft(null)}
+                    />
+                  )}
+                  {isRecording && (
+                    <AnnotationToolbar
+                      active={annotating}
+                      onToggle={() => setAnnotating(a => !a)}
+                      settings={annotationSettings}
+                      onChange={handleAnnotationSettingsChange}
+                      onUndo={() => recorderRef.current?.undoAnnotation()}
+                      onClear={() => recorderRef.current?.clearAnnotations()}
+                      hotkeys={hotkeys}
+                    />
+                  )}
+                  {zoomDrag && (
+                    <div
+                      className="absolute border-2 border-red-600 bg-red-600/10 pointer-events-none"
+                      style={{
+                        left: `${Math.min(zoomDrag.x0, zoomDrag.x1)}%`,
+                        top: `${Math.min(zoomDrag.y0, zoomDrag.y1)}%`,
+                        width: `${Math.abs(zoomDrag.x1 - zoomDrag.x0)}%`,
+                        height: `${Math.abs(zoomDrag.y1 - zoomDrag.y0)}%`
+                      }}
+                    />
+                  )}
                   {!isRecording && (
                     <div className="absolute inset-0 flex flex-col items-center justify-center opacity-10 pointer-events-none">
                       <Monitor className="w-10 h-10 mb-3" />
@@ -339,18 +2579,49 @@ const App: React.FC = () => {
                   <h2 className="text-2xl font-black tracking-tighter uppercase">Library</h2>
                   <p className="text-[10px] text-white/40 font-medium uppercase tracking-widest">Local-only storage</p>
                 </div>
-                {sessions.length > 0 && (
-                  <button onClick={async () => { if(confirm("Clear library?")) { await clearAllSessions(); loadSessions(); } }} className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest text-red-500/60 hover:text-red-500 transition-all">
-                    Wipe Storage
+                <div className="flex items-center gap-2">
+                  <input ref={importInputRef} type="file" accept=".zip,.webm,.mp4,application/zip,video/webm,video/mp4" multiple className="hidden" onChange={(e) => handleImport(e.target.files)} />
+                  <button onClick={() => importInputRef.current?.click()} disabled={isImporting} className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-all flex items-center gap-1.5 disabled:opacity-40">
+                    {isImporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />} Import Bundle
                   </button>
-                )}
+                  <button onClick={() => setShowStorage(true)} className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-all flex items-center gap-1.5">
+                    <HardDrive className="w-3 h-3" /> Storage
+                  </button>
+                  {sessions.length > 0 && (
+                    <button onClick={async () => { if(confirm("Clear library?")) { await clearAllSessions(); loadSessions(); refreshStorageEstimate(); } }} className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest text-red-500/60 hover:text-red-500 transition-all">
+                      Wipe Storage
+                    </button>
+                  )}
+                </div>
               </div>
               
+              <LibraryToolbar
+                view={libraryView}
+                onSortChange={(sort) => updateLibraryView({ sort })}
+                onFilterChange={updateLibraryFilter}
+                onReset={() => updateLibraryView({ filter: EMPTY_FILTER })}
+              />
+
+              {selectedIds.size > 0 && (
+                <div className="flex items-center gap-2 flex-wrap p-2 bg-red-600/10 border border-red-600/30 rounded-lg shrink-0">
+                  <span className="px-2 text-[9px] font-black uppercase tracking-widest">{selectedIds.size} selected</span>
+                  <button onClick={() => setSelectedIds(new Set(sessions.map(s => s.id)))} className="px-2 py-1.5 text-[9px] font-black uppercase tracking-widest text-white/50 hover:text-white transition-all">All</button>
+                  <button onClick={() => setSelectedIds(new Set())} className="px-2 py-1.5 text-[9px] font-black uppercase tracking-widest text-white/50 hover:text-white transition-all">None</button>
+                  <div className="ml-auto flex gap-2 flex-wrap">
+                    <button onClick={() => handleBatchZip(true)} className="px-3 py-1.5 bg-white text-black text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/90 transition-all flex items-center gap-1.5"><FileArchive className="w-3 h-3" /> One ZIP</button>
+                    <button onClick={() => handleBatchZip(false)} className="px-3 py-1.5 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all flex items-center gap-1.5"><FileArchive className="w-3 h-3" /> ZIP Each</button>
+                    <button onClick={handleBatchMp4} className="px-3 py-1.5 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all flex items-center gap-1.5"><Download className="w-3 h-3" /> MP4</button>
+                    <button onClick={handleBatchTranscribe} className="px-3 py-1.5 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all flex items-center gap-1.5"><Captions className="w-3 h-3" /> Transcribe</button>
+                    <button onClick={handleBatchDelete} className="px-3 py-1.5 border border-red-600/40 text-red-500 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-red-600/20 transition-all flex items-center gap-1.5"><Trash2 className="w-3 h-3" /> Delete</button>
+                  </div>
+                </div>
+              )}
+
               <div className="flex-grow overflow-y-auto pr-2">
                 {sessions.length === 0 ? (
                   <div className="h-full flex flex-col items-center justify-center space-y-4 opacity-10">
                     <Library className="w-12 h-12" />
-                    <span className="text-[10px] font-black uppercase tracking-widest">Empty</span>
+                    <span className="text-[10px] font-black uppercase tracking-widest">{isFilterActive(libraryView.filter) ? 'No matches' : 'Empty'}</span>
                   </div>
                 ) : (
                   <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 pb-6">
@@ -359,12 +2630,26 @@ const App: React.FC = () => {
                         key={s.id} 
                         session={s} 
                         onDelete={async (id) => { await deleteSession(id); loadSessions(); }} 
-                        onPreview={setPreviewingSession} 
+                        onPreview={handlePreview} 
+                        onDownload={handleVideoDownload}
                         onZip={handleZipDownload}
+                        onTranscribe={handleTranscribe}
+                        onTagClick={(tag) => { if (!libraryView.filter.tags.includes(tag)) updateLibraryFilter({ tags: [...libraryView.filter.tags, tag] }); }}
+                        transcription={transcriptionJobs[s.id]}
+                        selected={selectedIds.has(s.id)}
+                        selecting={selectedIds.size > 0}
+                        onSelect={handleSelect}
                       />
                     ))}
                   </div>
                 )}
+                {sessionCursor && (
+                  <div className="flex justify-center pb-6">
+                    <button onClick={loadMoreSessions} disabled={isLoadingMore} className="px-5 py-2.5 bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all flex items-center gap-2 disabled:opacity-40">
+                      {isLoadingMore && <Loader2 className="w-3 h-3 animate-spin" />} Load More
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -377,62 +2662,420 @@ const App: React.FC = () => {
         <div className="fixed inset-0 z-[100] bg-black/98 flex items-center justify-center p-6 backdrop-blur-2xl">
           <div className="max-w-4xl w-full bg-[#0a0a0a] border border-white/10 rounded-[1.5rem] overflow-hidden shadow-2xl relative">
             <div className="flex justify-between items-center px-6 py-4 border-b border-white/10">
-              <span className="text-[10px] font-black text-white/40 uppercase tracking-widest">{previewingSession.id}</span>
+              <span className="text-[10px] font-black text-white/40 uppercase tracking-widest">
+                {previewingSession.id} · {formatDuration(previewingSession.durationSeconds)}
+                {previewingSession.metadata.render && previewingSession.metadata.render.framesDropped > 0 && ` · ${previewingSession.metadata.render.framesDropped} dropped frame(s)`}
+                {previewingSession.metadata.render?.fallbackReason && <span title={previewingSession.metadata.render.fallbackReason}> · Main-thread render</span>}
+                {previewingSession.metadata.render?.error && <span className="text-red-500" title={previewingSession.metadata.render.error}> · Render worker failed</span>}
+                {previewingSession.metadata.format && ` · ${codecLabel(previewingSession.metadata.format.codec)} ${previewingSession.metadata.format.container.toUpperCase()}`}
+                {previewingSession.metadata.timeline && previewingSession.metadata.timeline.pausedSeconds > 0 && ` · ${previewingSession.metadata.timeline.segments.length - 1} pause(s), ${formatDuration(previewingSession.metadata.timeline.pausedSeconds)} cut`}
+                {previewingSession.metadata.unseekable && <span className="text-yellow-500" title="Duration and seek index could not be added to this WebM; some players may not seek it. Exporting to MP4 rebuilds the index."> · Not seekable</span>}
+              </span>
               <button onClick={() => setPreviewingSession(null)} className="p-2 hover:bg-white/10 rounded-full text-white/60 transition-colors"><X className="w-5 h-5" /></button>
             </div>
+            <div className="flex items-center gap-3 px-6 py-3 border-b border-white/10">
+              <input
+                key={`title-${previewingSession.id}`}
+                defaultValue={previewingSession.title || ''}
+                placeholder="Untitled recording"
+                onBlur={(e) => handleSessionDetails(previewingSession, { title: e.target.value.trim() || undefined })}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="flex-1 bg-transparent text-sm font-bold outline-none placeholder:text-white/20 focus:bg-white/5 rounded px-2 py-1"
+              />
+              <Tag className="w-3.5 h-3.5 text-white/30" />
+              <input
+                key={`tags-${previewingSession.id}-${(previewingSession.tags || []).join(',')}`}
+                defaultValue={(previewingSession.tags || []).join(', ')}
+                placeholder="tags, comma separated"
+                onBlur={(e) => {
+                  const tags = parseTags(e.target.value);
+                  handleSessionDetails(previewingSession, { tags: tags.length ? tags : undefined });
+                }}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-64 bg-transparent text-xs text-white/70 outline-none placeholder:text-white/20 focus:bg-white/5 rounded px-2 py-1"
+              />
+            </div>
             <div className="bg-black flex items-center justify-center p-2">
-              <video src={URL.createObjectURL(previewingSession.videoBlob)} controls autoPlay className="max-w-full max-h-[55vh] rounded-lg" />
+              <div className="relative flex">
+                <video ref={previewVideoRef} src={previewVideoUrl || undefined} controls autoPlay onTimeUpdate={(e) => handlePreviewTimeUpdate(e.currentTarget)} className="max-w-full max-h-[55vh] rounded-lg" />
+                {captionsVisible && previewCues.length > 0 && <CaptionOverlay videoRef={previewVideoRef} cues={previewCues} style={captionStyle} />}
+              </div>
             </div>
+            {transcriptDraft && (
+              <TranscriptPanel
+                session={previewingSession}
+                cues={transcriptDraft}
+                onChange={setTranscriptDraft}
+                onSave={handleSaveTranscript}
+                dirty={transcriptDirty}
+                currentTime={previewTime}
+                onSeek={(t) => { if (previewVideoRef.current) previewVideoRef.current.currentTime = t; }}
+              />
+            )}
+            {showCaptionPanel && previewingSession.srt && (
+              <CaptionPanel
+                style={captionStyle}
+                onChange={handleCaptionStyleChange}
+                visible={captionsVisible}
+                onVisibleChange={setCaptionsVisible}
+                hasWordTimings={!!previewingSession.words?.length}
+                busy={!!conversion}
+                onBurnIn={(target) => handleBurnIn(previewingSession, target)}
+                onSidecar={(format) => handleCaptionDownload(previewingSession, format)}
+              />
+            )}
+            {showEditor && editDraft && (
+              <TrimEditor
+                session={previewingSession}
+                edit={editDraft}
+                onChange={setEditDraft}
+                onSave={handleSaveEdit}
+                currentTime={previewTime}
+                onSeek={(t) => { if (previewVideoRef.current) previewVideoRef.current.currentTime = t; }}
+                playEdited={playEdited}
+                onPlayEditedChange={setPlayEdited}
+                dirty={!editsEqual(editDraft, previewingSession.edit, previewingSession.durationSeconds)}
+              />
+            )}
+            {showZoomEditor && previewingSession.metadata.zoomTimeline && (
+              <ZoomKeyframeEditor
+                keyframes={previewingSession.metadata.zoomTimeline}
+                duration={previewingSession.durationSeconds}
+                currentTime={previewTime}
+                onSeek={(t) => { if (previewVideoRef.current) previewVideoRef.current.currentTime = t; }}
+                onSave={handleSaveZoomTimeline}
+              />
+            )}
+            {!showEditor && !!previewingSession.metadata.markers?.length && (
+              <ChapterScrubber
+                markers={previewingSession.metadata.markers}
+                duration={previewingSession.durationSeconds}
+                currentTime={previewTime}
+                onSeek={(t) => { if (previewVideoRef.current) previewVideoRef.current.currentTime = t; }}
+              />
+            )}
             <div className="p-5 border-t border-white/10 flex justify-between items-center">
                <div className="flex gap-3">
-                  <button onClick={() => triggerDownload(URL.createObjectURL(previewingSession.videoBlob), `${previewingSession.id}.webm`)} className="px-5 py-2.5 bg-white/5 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all flex items-center gap-2">
-                    <Download className="w-3.5 h-3.5" /> WebM
+                  <button onClick={() => setShowEditor(v => !v)} className={`px-4 py-2.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all flex items-center gap-2 ${showEditor ? 'bg-red-600 text-white' : 'bg-white/5 hover:bg-white/10'}`}>
+                    <Scissors className="w-3.5 h-3.5" /> Edit
+                  </button>
+                  {!!previewingSession.metadata.zoomTimeline?.length && (
+                    <button onClick={() => setShowZoomEditor(v => !v)} className={`px-4 py-2.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all flex items-center gap-2 ${showZoomEditor ? 'bg-red-600 text-white' : 'bg-white/5 hover:bg-white/10'}`}>
+                      <ZoomIn className="w-3.5 h-3.5" /> Zoom
+                    </button>
+                  )}
+                  {previewingSession.srt && (
+                    <button onClick={() => setShowCaptionPanel(v => !v)} className={`px-4 py-2.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all flex items-center gap-2 ${showCaptionPanel ? 'bg-red-600 text-white' : 'bg-white/5 hover:bg-white/10'}`}>
+                      <Subtitles className="w-3.5 h-3.5" /> Captions
+                    </button>
+                  )}
+                  {previewingSession.srt && (
+                    <button onClick={toggleTranscript} className={`px-4 py-2.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all flex items-center gap-2 ${transcriptDraft ? 'bg-red-600 text-white' : 'bg-white/5 hover:bg-white/10'}`}>
+                      <FileText className="w-3.5 h-3.5" /> Transcript
+                    </button>
+                  )}
+                  <button onClick={() => handleVideoDownload(previewingSession)} disabled={!!conversion} className="px-5 py-2.5 bg-white/5 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all flex items-center gap-2 disabled:opacity-40">
+                    <Download className="w-3.5 h-3.5" /> {previewingSession.videoType}{previewingSession.edit ? ' (edited)' : ''}
                   </button>
                   <button onClick={() => handleZipDownload(previewingSession)} className="px-5 py-2.5 bg-white text-black text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/90 transition-all flex items-center gap-2">
                     <FileArchive className="w-3.5 h-3.5" /> Bundle Zip
                   </button>
+                  {(['mp4', 'mp3', 'wav'] as const).map(target => (
+                    <button key={target} onClick={() => handleConvert(previewingSession, target)} disabled={!!conversion} className="px-4 py-2.5 bg-white/5 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all flex items-center gap-2 disabled:opacity-40">
+                      <Download className="w-3.5 h-3.5" /> {target}
+                    </button>
+                  ))}
                </div>
                <button onClick={() => { if(confirm("Delete?")) { deleteSession(previewingSession.id).then(() => { setPreviewingSession(null); loadSessions(); }); } }} className="text-[9px] font-black text-red-500 uppercase">Delete</button>
             </div>
+            {conversion && (
+              <div className="px-5 pb-5 space-y-2">
+                <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest text-white/40">
+                  <span className="flex items-center gap-2">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    {conversion.progress.stage === 'loading' ? 'Loading FFmpeg' : `Encoding ${conversion.label} · ${Math.round(conversion.progress.ratio * 100)}%`}
+                  </span>
+                  <button onClick={() => conversionAbortRef.current?.abort()} className="text-red-500 hover:text-red-400">Cancel</button>
+                </div>
+                <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-red-600 transition-all" style={{ width: `${Math.round(conversion.progress.ratio * 100)}%` }} />
+                </div>
+                {getFFmpegSupport().message && <p className="text-[10px] text-white/30">{getFFmpegSupport().message}</p>}
+              </div>
+            )}
           </div>
         </div>
       )}
 
+      {jobs.length > 0 && (
+        <JobsPanel
+          jobs={jobs}
+          onCancel={(id) => jobQueue.cancel(id)}
+          onRetry={(id) => jobQueue.retry(id)}
+          onCancelAll={() => jobQueue.cancelAll()}
+          onClear={() => jobQueue.clearFinished()}
+        />
+      )}
+
       {showInstructions && <InstructionsModal onClose={() => setShowInstructions(false)} />}
+      {showShortcuts && <ShortcutsModal bindings={hotkeys} onSave={handleSaveHotkeys} onClose={() => setShowShortcuts(false)} />}
+      {showStorage && <StorageModal onClose={() => setShowStorage(false)} onChanged={() => { loadSessions(); refreshStorageEstimate(); }} />}
+      {showSettings && <SettingsModal settings={transcriptionSettings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />}
+    </div>
+  );
+};
+
+const JOB_STATUS_LABEL: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const JobsPanel: React.FC<{
+  jobs: Job[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onCancelAll: () => void;
+  onClear: () => void;
+}> = ({ jobs, onCancel, onRetry, onCancelAll, onClear }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const pending = jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+  const failed = jobs.filter(j => j.status === 'failed').length;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[90] w-80 bg-[#0a0a0a] border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-white/10">
+        {pending > 0 ? <Loader2 className="w-3.5 h-3.5 animate-spin text-red-500" /> : <ListChecks className="w-3.5 h-3.5 text-white/40" />}
+        <button onClick={() => setCollapsed(v => !v)} className="flex-1 text-left text-[9px] font-black uppercase tracking-widest">
+          Jobs · {pending > 0 ? `${pending} pending` : 'idle'}{failed > 0 ? ` · ${failed} failed` : ''}
+        </button>
+        {pending > 0 && <button onClick={onCancelAll} className="text-[9px] font-black uppercase tracking-widest text-red-500 hover:text-red-400">Cancel all</button>}
+        <button onClick={onClear} className="text-[9px] font-black uppercase tracking-widest text-white/40 hover:text-white">Clear</button>
+      </div>
+      {!collapsed && (
+        <div className="max-h-72 overflow-y-auto divide-y divide-white/5">
+          {jobs.map(job => (
+            <div key={job.id} className="px-4 py-2.5 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 text-[10px] font-bold truncate" title={job.label}>{job.label}</span>
+                <span className={`text-[8px] font-black uppercase tracking-widest ${job.status === 'failed' ? 'text-red-500' : job.status === 'done' ? 'text-green-500' : 'text-white/40'}`}>
+                  {job.status === 'running' ? `${Math.round(job.progress * 100)}%` : JOB_STATUS_LABEL[job.status]}
+                </span>
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button onClick={() => onCancel(job.id)} className="p-1 text-white/40 hover:text-red-500" title="Cancel"><X className="w-3 h-3" /></button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => onRetry(job.id)} className="p-1 text-white/40 hover:text-white" title="Retry"><RotateCcw className="w-3 h-3" /></button>
+                )}
+              </div>
+              {job.status === 'running' && (
+                <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-red-600 transition-all" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                </div>
+              )}
+              {job.message && <p className={`text-[9px] ${job.status === 'failed' ? 'text-red-500/80' : 'text-white/30'}`}>{job.message}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LibraryToolbar: React.FC<{
+  view: LibraryView;
+  onSortChange: (sort: LibrarySort) => void;
+  onFilterChange: (patch: Partial<SessionFilter>) => void;
+  onReset: () => void;
+}> = ({ view, onSortChange, onFilterChange, onReset }) => {
+  const { filter } = view;
+  const [showFilters, setShowFilters] = useState(isFilterActive({ ...filter, text: '' }));
+  const field = "bg-black border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-bold outline-none focus:border-white/40";
+  const label = "flex items-center gap-1.5 text-[9px] text-white/40 font-black uppercase tracking-widest";
+  const numberOrNull = (value: string) => value === '' ? null : Math.max(0, Number(value));
+
+  return (
+    <div className="space-y-3 shrink-0">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-white/30" />
+          <input
+            value={filter.text}
+            onChange={(e) => onFilterChange({ text: e.target.value })}
+            placeholder="Search titles, tags and transcripts"
+            className={`${field} w-full pl-8 py-2`}
+          />
+        </div>
+        <select value={view.sort} onChange={(e) => onSortChange(e.target.value as LibrarySort)} className={`${field} py-2`}>
+          {(Object.keys(LIBRARY_SORTS) as LibrarySort[]).map(key => <option key={key} value={key}>{LIBRARY_SORTS[key].label}</option>)}
+        </select>
+        <button onClick={() => setShowFilters(v => !v)} className={`px-3 py-2 text-[9px] font-black uppercase tracking-widest rounded-lg border border-white/10 transition-all flex items-center gap-1.5 ${showFilters ? 'bg-white text-black' : 'bg-white/5 hover:bg-white/10'}`}>
+          <SlidersHorizontal className="w-3 h-3" /> Filters
+        </button>
+        {isFilterActive(filter) && (
+          <button onClick={onReset} className="px-3 py-2 text-[9px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-all">Clear</button>
+        )}
+      </div>
+      {showFilters && (
+        <div className="flex items-center gap-4 flex-wrap p-3 bg-white/[0.02] border border-white/5 rounded-lg">
+          <label className={label}>
+            Layout
+            <select value={filter.layoutStyle || ''} onChange={(e) => onFilterChange({ layoutStyle: e.target.value || null })} className={field}>
+              <option value="">Any</option>
+              {getLayouts().map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          </label>
+          <label className={label}>
+            Resolution
+            <select value={filter.resolution || ''} onChange={(e) => onFilterChange({ resolution: (e.target.value || null) as Resolution | null })} className={field}>
+              <option value="">Any</option>
+              {(Object.keys(RESOLUTIONS) as (keyof typeof RESOLUTIONS)[]).map(r => <option key={r} value={r}>{RESOLUTIONS[r].label}</option>)}
+              <option value="custom">Custom</option>
+            </select>
+          </label>
+          <label className={label}>
+            FPS
+            <select value={filter.fps || ''} onChange={(e) => onFilterChange({ fps: e.target.value ? Number(e.target.value) as 30 | 60 : null })} className={field}>
+              <option value="">Any</option>
+              <option value="30">30</option>
+              <option value="60">60</option>
+            </select>
+          </label>
+          <label className={label}>
+            From
+            <input type="date" value={filter.fromDate || ''} onChange={(e) => onFilterChange({ fromDate: e.target.value || null })} className={field} />
+          </label>
+          <label className={label}>
+            To
+            <input type="date" value={filter.toDate || ''} onChange={(e) => onFilterChange({ toDate: e.target.value || null })} className={field} />
+          </label>
+          <label className={label}>
+            Minutes
+            <input type="number" min={0} placeholder="min" value={filter.minMinutes ?? ''} onChange={(e) => onFilterChange({ minMinutes: numberOrNull(e.target.value) })} className={`${field} w-16`} />
+            –
+            <input type="number" min={0} placeholder="max" value={filter.maxMinutes ?? ''} onChange={(e) => onFilterChange({ maxMinutes: numberOrNull(e.target.value) })} className={`${field} w-16`} />
+          </label>
+        </div>
+      )}
+      {filter.tags.length > 0 && (
+        <div className="flex items-center gap-1.5 flex-wrap">
+          {filter.tags.map(tag => (
+            <button key={tag} onClick={() => onFilterChange({ tags: filter.tags.filter(t => t !== tag) })} className="px-2 py-1 bg-red-600/20 border border-red-600/40 rounded text-[9px] font-bold flex items-center gap-1">
+              #{tag} <X className="w-2.5 h-2.5" />
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
 const LibraryCard: React.FC<{ 
-  session: RecordingSession; 
+  session: SessionSummary; 
   onDelete: (id: string) => void; 
-  onPreview: (s: any) => void; 
-  onZip: (s: any) => void;
-}> = ({ session, onDelete, onPreview, onZip }) => {
-  const url = useMemo(() => URL.createObjectURL(session.videoBlob), [session.videoBlob]);
+  onPreview: (s: SessionSummary) => void; 
+  onDownload: (s: SessionSummary) => void;
+  onZip: (s: SessionSummary) => void;
+  onTranscribe: (s: SessionSummary) => void;
+  onTagClick: (tag: string) => void;
+  transcription?: TranscriptionProgress;
+  selected: boolean;
+  selecting: boolean; // some card is selected, so clicks select instead of opening
+  onSelect: (id: string, range: boolean) => void;
+}> = ({ session, onDelete, onPreview, onDownload, onZip, onTranscribe, onTagClick, transcription, selected, selecting, onSelect }) => {
+  const isTranscribing = !!transcription && transcription.stage !== 'done' && transcription.stage !== 'error';
+  const thumbnails = session.thumbnails;
+  const [scrubFrame, setScrubFrame] = useState<number | null>(null);
+  const posterUrl = useObjectUrl(thumbnails?.poster);
+  // The sprite is only decoded once the card is hovered.
+  const spriteUrl = useObjectUrl(scrubFrame !== null ? thumbnails?.sprite : undefined);
+
+  const handleScrub = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!thumbnails) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.max(0, Math.min(0.999, (e.clientX - rect.left) / rect.width));
+    setScrubFrame(Math.floor(ratio * thumbnails.frames));
+  };
   return (
-    <div className="bg-[#0a0a0a] border border-white/10 rounded-xl p-3 space-y-3 hover:border-red-600/30 transition-all group">
-      <div className={`bg-black rounded-lg overflow-hidden border border-white/5 cursor-pointer relative ${session.layoutStyle === 'SHORTS' ? 'aspect-[9/16]' : 'aspect-video'}`} onClick={() => onPreview(session)}>
-        <video src={url} muted className="w-full h-full object-cover opacity-40 group-hover:opacity-100 transition-all duration-500" />
-        <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all bg-black/60">
-           <Play className="fill-white w-5 h-5" />
-        </div>
+    <div className={`bg-[#0a0a0a] border rounded-xl p-3 space-y-3 transition-all group ${selected ? 'border-red-600' : 'border-white/10 hover:border-red-600/30'}`}>
+      <div
+        className="bg-black rounded-lg overflow-hidden border border-white/5 cursor-pointer relative select-none"
+        style={{ aspectRatio: sessionAspect(session) }}
+        onClick={(e) => { if (selecting || e.shiftKey) onSelect(session.id, e.shiftKey); else onPreview(session); }}
+        onMouseMove={handleScrub}
+        onMouseLeave={() => setScrubFrame(null)}
+      >
+        {posterUrl ? (
+          <img src={posterUrl} className="absolute inset-0 w-full h-full object-cover" draggable={false} />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center opacity-20 group-hover:opacity-40 transition-all duration-500">
+            <Video className="w-6 h-6" />
+          </div>
+        )}
+        {thumbnails && scrubFrame !== null && spriteUrl ? (
+          <>
+            <div
+              className="absolute inset-0"
+              style={{
+                backgroundImage: `url(${spriteUrl})`,
+                backgroundSize: `${thumbnails.frames * 100}% 100%`,
+                backgroundPosition: `${thumbnails.frames > 1 ? (scrubFrame / (thumbnails.frames - 1)) * 100 : 0}% 0`
+              }}
+            />
+            <div className="absolute bottom-0 left-0 h-0.5 bg-red-600" style={{ width: `${((scrubFrame + 1) / thumbnails.frames) * 100}%` }} />
+          </>
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all bg-black/60">
+             <Play className="fill-white w-5 h-5" />
+          </div>
+        )}
         <div className="absolute top-1.5 right-1.5">
           <span className="bg-black/80 px-1.5 py-0.5 rounded text-[7px] font-black uppercase tracking-widest border border-white/10">{session.layoutStyle}</span>
         </div>
+        <button
+          onClick={(e) => { e.stopPropagation(); onSelect(session.id, e.shiftKey); }}
+          className={`absolute top-1.5 left-1.5 p-0.5 bg-black/80 rounded transition-all ${selected || selecting ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          title="Select (shift-click for a range)"
+        >
+          {selected ? <SquareCheck className="w-3.5 h-3.5 text-red-500" /> : <Square className="w-3.5 h-3.5 text-white/60" />}
+        </button>
       </div>
       <div className="space-y-0.5">
-        <h3 className="font-bold text-[9px] truncate text-white/80 uppercase tracking-tighter">{session.id}</h3>
-        <p className="text-[8px] text-white/30 font-bold uppercase">{formatDuration(session.durationSeconds)} duration</p>
+        <h3 className={`font-bold truncate text-white/80 ${session.title ? 'text-[11px]' : 'text-[9px] uppercase tracking-tighter'}`} title={sessionTitle(session)}>{sessionTitle(session)}</h3>
+        {session.title && <p className="text-[8px] text-white/30 font-bold uppercase tracking-tighter truncate">{session.id}</p>}
+        <p className="text-[8px] text-white/30 font-bold uppercase">{formatDuration(session.durationSeconds)} duration{session.srt ? ' · captioned' : ''}</p>
+        {!!session.tags?.length && (
+          <div className="flex gap-1 flex-wrap pt-1">
+            {session.tags.map(tag => (
+              <button key={tag} onClick={() => onTagClick(tag)} className="px-1.5 py-0.5 bg-white/5 hover:bg-white/10 rounded text-[8px] font-bold text-white/50">#{tag}</button>
+            ))}
+          </div>
+        )}
+        {isTranscribing && (
+          <p className="text-[8px] text-white/50 font-bold uppercase flex items-center gap-1"><Loader2 className="w-2.5 h-2.5 animate-spin" /> {transcription!.stage}{transcription!.message ? ` ${transcription!.message}` : ''}…</p>
+        )}
+        {transcription?.stage === 'error' && (
+          <p className="text-[8px] text-red-500 font-bold" title={transcription.message}>{transcription.message}</p>
+        )}
       </div>
       <div className="flex gap-1.5">
         <button 
-          onClick={(e) => { e.stopPropagation(); triggerDownload(url, `${session.id}.webm`); }} 
+          onClick={(e) => { e.stopPropagation(); onDownload(session); }} 
           className="p-2.5 bg-white/5 text-white/40 hover:text-white rounded-lg transition-all border border-white/5 flex items-center justify-center" 
-          title="Download WebM"
+          title={`Download ${session.videoType.toUpperCase()}`}
         >
           <Video className="w-3.5 h-3.5" />
         </button>
+        <button
+          onClick={() => onTranscribe(session)}
+          disabled={isTranscribing}
+          className="p-2.5 bg-white/5 text-white/40 hover:text-white rounded-lg transition-all border border-white/5 flex items-center justify-center disabled:opacity-40"
+          title={session.srt ? 'Re-transcribe' : 'Transcribe'}
+        >
+          {isTranscribing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Captions className="w-3.5 h-3.5" />}
+        </button>
         <button onClick={() => onZip(session)} className="flex-grow py-2.5 bg-white text-black text-[8px] font-black uppercase rounded-lg hover:bg-white/90 transition-all">Zip Export</button>
         <button onClick={() => { if(confirm("Delete?")) onDelete(session.id); }} className="p-2.5 border border-white/5 text-white/20 hover:text-red-500 rounded-lg transition-all"><Trash2 className="w-3.5 h-3.5" /></button>
       </div>
@@ -0,0 +1,166 @@
+import { Annotation, AnnotationSettings, AnnotationTool } from '../types';
+import { Canvas2D } from './compositor';
+
+const SETTINGS_KEY = 'decdecrec.annotations';
+// Strokes fade out over this long once their time is up.
+const FADE_OUT_MS = 500;
+// Pen points closer than this (percent of the canvas) are skipped.
+const MIN_POINT_DISTANCE = 0.2;
+
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff', '#000000'];
+
+export const ANNOTATION_FADES: { label: string; value: number | null }[] = [
+  { label: 'Keep', value: null },
+  { label: '3 s', value: 3 },
+  { label: '5 s', value: 5 },
+  { label: '10 s', value: 10 }
+];
+
+export const DEFAULT_ANNOTATION_SETTINGS: AnnotationSettings = {
+  tool: 'pen',
+  color: ANNOTATION_COLORS[0],
+  size: 6,
+  fadeSeconds: 5
+};
+
+// Two-point tools are drawn by dragging from one corner/end to the other.
+export const isTwoPointTool = (tool: AnnotationTool) => tool === 'arrow' || tool === 'rect';
+
+// Adds a point to a stroke, or moves the far end of an arrow or rectangle.
+export function extendAnnotation(annotation: Annotation, x: number, y: number): Annotation {
+  if (isTwoPointTool(annotation.tool)) {
+    return { ...annotation, points: [annotation.points[0], { x, y }] };
+  }
+  const last = annotation.points[annotation.points.length - 1];
+  if (last && Math.hypot(x - last.x, y - last.y) < MIN_POINT_DISTANCE) return annotation;
+  return { ...annotation, points: [...annotation.points, { x, y }] };
+}
+
+// A click with a shape tool leaves nothing worth keeping.
+export function isEmptyAnnotation(annotation: Annotation): boolean {
+  if (annotation.tool === 'text') return !annotation.text?.trim();
+  if (!isTwoPointTool(annotation.tool)) return false;
+  const [a, b] = annotation.points;
+  return !b || Math.hypot(b.x - a.x, b.y - a.y) < 1;
+}
+
+export function drawAnnotation(ctx: Canvas2D, annotation: Annotation, width: number, height: number) {
+  const scale = Math.min(width, height) / 1080;
+  const pts = annotation.points.map(p => ({ x: (p.x / 100) * width, y: (p.y / 100) * height }));
+  if (pts.length === 0) return;
+  const lineWidth = annotation.size * scale;
+
+  ctx.save();
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = lineWidth;
+
+  switch (annotation.tool) {
+    case 'pen':
+    case 'highlighter': {
+      if (annotation.tool === 'highlighter') {
+        ctx.globalAlpha *= 0.35;
+        ctx.lineWidth = lineWidth * 4;
+        ctx.lineCap = 'butt';
+      }
+      ctx.beginPath();
+      ctx.moveTo(pts[0].x, pts[0].y);
+      if (pts.length === 1) ctx.lineTo(pts[0].x + 0.01, pts[0].y);
+      // Curves through the midpoints smooth out the mouse's sampling.
+      for (let i = 1; i < pts.length - 1; i++) {
+        ctx.quadraticCurveTo(pts[i].x, pts[i].y, (pts[i].x + pts[i + 1].x) / 2, (pts[i].y + pts[i + 1].y) / 2);
+      }
+      if (pts.length > 1) ctx.lineTo(pts[pts.length - 1].x, pts[pts.length - 1].y);
+      ctx.stroke();
+      break;
+    }
+    case 'arrow': {
+      if (pts.length < 2) break;
+      const [a, b] = pts;
+      const angle = Math.atan2(b.y - a.y, b.x - a.x);
+      const head = Math.max(lineWidth * 4, 12 * scale);
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x - Math.cos(angle) * head * 0.5, b.y - Math.sin(angle) * head * 0.5);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(b.x, b.y);
+      ctx.lineTo(b.x - head * Math.cos(angle - Math.PI / 7), b.y - head * Math.sin(angle - Math.PI / 7));
+      ctx.lineTo(b.x - head * Math.cos(angle + Math.PI / 7), b.y - head * Math.sin(angle + Math.PI / 7));
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+    case 'rect': {
+      if (pts.length < 2) break;
+      const [a, b] = pts;
+      ctx.strokeRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+      break;
+    }
+    case 'text': {
+      if (!annotation.text) break;
+      const fontSize = Math.max(14, annotation.size * 6 * scale);
+      ctx.font = `700 ${fontSize}px Inter, system-ui, sans-serif`;
+      ctx.textBaseline = 'top';
+      // A dark outline keeps light text readable over any content.
+      ctx.lineWidth = fontSize / 6;
+      ctx.strokeStyle = annotation.color === '#000000' ? '#ffffff' : '#000000';
+      annotation.text.split('\n').forEach((line, i) => {
+        ctx.strokeText(line, pts[0].x, pts[0].y + i * fontSize * 1.2);
+        ctx.fillText(line, pts[0].x, pts[0].y + i * fontSize * 1.2);
+      });
+      break;
+    }
+  }
+  ctx.restore();
+}
+
+// The annotations currently on screen. `now` is recorded time in ms, so fades
+// hold while the take is paused; each counts from the last change to its annotation.
+export class AnnotationLayer {
+  private items: { annotation: Annotation; updatedAt: number }[] = [];
+
+  upsert(annotation: Annotation, now: number) {
+    const existing = this.items.find(i => i.annotation.id === annotation.id);
+    if (existing) {
+      existing.annotation = annotation;
+      existing.updatedAt = now;
+    } else {
+      this.items.push({ annotation, updatedAt: now });
+    }
+  }
+
+  remove(id: string) {
+    this.items = this.items.filter(i => i.annotation.id !== id);
+  }
+
+  clear() {
+    this.items = [];
+  }
+
+  draw(ctx: Canvas2D, width: number, height: number, now: number) {
+    this.items = this.items.filter(({ annotation, updatedAt }) =>
+      annotation.fadeAfter === undefined || now - updatedAt < annotation.fadeAfter * 1000 + FADE_OUT_MS);
+    for (const { annotation, updatedAt } of this.items) {
+      const remaining = annotation.fadeAfter === undefined ? Infinity : annotation.fadeAfter * 1000 + FADE_OUT_MS - (now - updatedAt);
+      ctx.globalAlpha = Math.min(1, remaining / FADE_OUT_MS);
+      drawAnnotation(ctx, annotation, width, height);
+    }
+    ctx.globalAlpha = 1;
+  }
+}
+
+export function loadAnnotationSettings(): AnnotationSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_ANNOTATION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_ANNOTATION_SETTINGS;
+  } catch (e) {
+    return DEFAULT_ANNOTATION_SETTINGS;
+  }
+}
+
+export function saveAnnotationSettings(settings: AnnotationSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,237 @@
+import { BundleManifest, LayoutStyle, QualityConfig, RecordingSession } from '../types';
+import { srtToVtt } from './transcription';
+import { formatSessionId, isSessionId } from './sessionId';
+import { markersToChapters, toVttChapters, toYouTubeChapters } from './chapters';
+import { isValidEdit } from './edits';
+import { acquireObjectUrl, releaseObjectUrl } from './objectUrls';
+import { audioExtension, presetForShortSide } from './quality';
+
+declare var JSZip: any;
+
+export const BUNDLE_SCHEMA = 'decdecrec.bundle';
+// Bump when the manifest or file layout changes in a way importers must know about.
+export const BUNDLE_SCHEMA_VERSION = 1;
+export const MANIFEST_FILE = 'metadata.json';
+
+export function buildManifest(session: RecordingSession): BundleManifest {
+  const files: BundleManifest['files'] = { video: `${session.id}.${session.videoType}` };
+  if (session.audioBlob) files.audio = `${session.id}_audio.${audioExtension(session.audioBlob)}`;
+  if (session.transcript) files.transcript = 'transcript.txt';
+  if (session.srt) {
+    files.srt = 'captions.srt';
+    files.vtt = 'captions.vtt';
+  }
+  if (session.words?.length) files.words = 'words.json';
+  if (session.metadata.markers?.length) {
+    files.chapters = 'chapters.txt';
+    files.chaptersVtt = 'chapters.vtt';
+  }
+
+  return {
+    schema: BUNDLE_SCHEMA,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    appVersion: __APP_VERSION__,
+    exportedAtISO: new Date().toISOString(),
+    session: {
+      id: session.id,
+      createdAtISO: session.createdAtISO,
+      durationSeconds: session.durationSeconds,
+      layoutStyle: session.layoutStyle,
+      quality: session.quality,
+      videoType: session.videoType,
+      ...(session.title ? { title: session.title } : {}),
+      ...(session.tags?.length ? { tags: session.tags } : {}),
+      ...(session.edit ? { edit: session.edit } : {})
+    },
+    files,
+    metadata: session.metadata
+  };
+}
+
+// `zip` may be the archive root or a folder inside it.
+function addBundleFiles(zip: any, session: RecordingSession) {
+  const manifest = buildManifest(session);
+  const { files } = manifest;
+
+  zip.file(files.video, session.videoBlob);
+  if (files.audio && session.audioBlob) zip.file(files.audio, session.audioBlob);
+  if (files.transcript) zip.file(files.transcript, session.transcript);
+  if (files.srt && session.srt) {
+    zip.file(files.srt, session.srt);
+    zip.file(files.vtt, srtToVtt(session.srt));
+  }
+  if (files.words) zip.file(files.words, JSON.stringify(session.words, null, 2));
+  if (files.chapters) {
+    const chapters = markersToChapters(session.metadata.markers || [], session.durationSeconds);
+    zip.file(files.chapters, toYouTubeChapters(chapters));
+    zip.file(files.chaptersVtt, toVttChapters(chapters));
+  }
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+}
+
+export async function buildBundle(session: RecordingSession): Promise<Blob> {
+  const zip = new JSZip();
+  addBundleFiles(zip, session);
+  return zip.generateAsync({ type: 'blob' });
+}
+
+// One archive holding a bundle folder per session; importFile reads it back.
+export async function buildMultiBundle(sessions: RecordingSession[], onProgress?: (ratio: number) => void): Promise<Blob> {
+  const zip = new JSZip();
+  for (const session of sessions) addBundleFiles(zip.folder(session.id), session);
+  return zip.generateAsync({ type: 'blob' }, (meta: { percent: number }) => onProgress?.(meta.percent / 100));
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Bundles exported before the schema existed only carried id/date/duration/layout/quality.
+function upgradeLegacyManifest(raw: Record<string, any>): Record<string, any> {
+  if (raw.schema !== undefined || typeof raw.id !== 'string' || typeof raw.date !== 'string') return raw;
+  return {
+    schema: BUNDLE_SCHEMA,
+    schemaVersion: 1,
+    appVersion: 'legacy',
+    exportedAtISO: raw.date,
+    session: {
+      id: raw.id,
+      createdAtISO: raw.date,
+      durationSeconds: raw.duration,
+      layoutStyle: raw.layout,
+      quality: raw.quality,
+      videoType: 'webm'
+    },
+    files: { video: `${raw.id}.webm` },
+    metadata: { webcamPos: { x: 85, y: 85 } }
+  };
+}
+
+export function validateManifest(input: unknown): BundleManifest {
+  if (!isObject(input)) throw new Error('metadata.json is not a JSON object.');
+  const raw = upgradeLegacyManifest(input);
+  if (raw.schema !== BUNDLE_SCHEMA) throw new Error('Not a DecDecRec bundle (missing schema marker).');
+  if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion < 1) throw new Error('Bundle has an invalid schemaVersion.');
+  if (raw.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`Bundle schema v${raw.schemaVersion} is newer than this app supports (v${BUNDLE_SCHEMA_VERSION}). Update DecDecRec and try again.`);
+  }
+
+  const { session, files, metadata } = raw;
+  if (!isObject(session)) throw new Error('Bundle manifest is missing "session".');
+  if (typeof session.id !== 'string' || !isSessionId(session.id)) throw new Error('Bundle session id is not a valid DD-Mon-YYYY_HH-mm-ss id.');
+  if (typeof session.createdAtISO !== 'string' || isNaN(Date.parse(session.createdAtISO))) throw new Error('Bundle session has an invalid createdAtISO.');
+  if (typeof session.durationSeconds !== 'number') throw new Error('Bundle session has an invalid durationSeconds.');
+  if (typeof session.layoutStyle !== 'string') throw new Error('Bundle session has an invalid layoutStyle.');
+  if (!isObject(session.quality)) throw new Error('Bundle session has an invalid quality.');
+  if (session.videoType !== 'webm' && session.videoType !== 'mp4') throw new Error('Bundle session has an invalid videoType.');
+  if (session.title !== undefined && typeof session.title !== 'string') throw new Error('Bundle session has an invalid title.');
+  if (session.tags !== undefined && !(Array.isArray(session.tags) && session.tags.every((t: unknown) => typeof t === 'string'))) throw new Error('Bundle session has invalid tags.');
+  if (session.edit !== undefined && !isValidEdit(session.edit)) throw new Error('Bundle session has an invalid edit list.');
+  if (!isObject(files) || typeof files.video !== 'string') throw new Error('Bundle manifest is missing "files.video".');
+  for (const key of ['audio', 'transcript', 'srt', 'vtt', 'words', 'chapters', 'chaptersVtt']) {
+    if (files[key] !== undefined && typeof files[key] !== 'string') throw new Error(`Bundle manifest has an invalid "files.${key}".`);
+  }
+  if (!isObject(metadata) || !isObject(metadata.webcamPos)) throw new Error('Bundle manifest is missing "metadata".');
+
+  return raw as BundleManifest;
+}
+
+async function readBundle(zip: any, dir = ''): Promise<RecordingSession> {
+  const manifestEntry = zip.file(dir + MANIFEST_FILE);
+  if (!manifestEntry) throw new Error('Bundle has no metadata.json.');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestEntry.async('string'));
+  } catch (e) {
+    throw new Error('metadata.json is not valid JSON.');
+  }
+  const manifest = validateManifest(raw);
+  const { files } = manifest;
+
+  const entry = (name?: string) => {
+    if (!name) return null;
+    const f = zip.file(dir + name);
+    if (!f) throw new Error(`Bundle is missing ${name}.`);
+    return f;
+  };
+
+  const videoData = await entry(files.video)!.async('blob');
+  const videoBlob = new Blob([videoData], { type: manifest.session.videoType === 'mp4' ? 'video/mp4' : 'video/webm' });
+  const audioEntry = entry(files.audio);
+  const transcriptEntry = entry(files.transcript);
+  const srtEntry = entry(files.srt);
+  const wordsEntry = entry(files.words);
+
+  return {
+    ...manifest.session,
+    videoBlob,
+    audioBlob: audioEntry ? new Blob([await audioEntry.async('blob')], { type: /\.m4a$/i.test(files.audio!) ? 'audio/mp4' : 'audio/webm' }) : undefined,
+    transcript: transcriptEntry ? await transcriptEntry.async('string') : undefined,
+    srt: srtEntry ? await srtEntry.async('string') : undefined,
+    words: wordsEntry ? JSON.parse(await wordsEntry.async('string')) : undefined,
+    metadata: manifest.metadata
+  };
+}
+
+function probeVideo(blob: Blob): Promise<{ width: number; height: number; duration: number }> {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    const done = (result: { width: number; height: number; duration: number }) => {
+      releaseObjectUrl(blob);
+      resolve(result);
+    };
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => done({
+      width: video.videoWidth,
+      height: video.videoHeight,
+      // MediaRecorder WebMs report Infinity until fully scanned
+      duration: isFinite(video.duration) ? video.duration : 0
+    });
+    video.onerror = () => done({ width: 0, height: 0, duration: 0 });
+    video.src = acquireObjectUrl(blob);
+  });
+}
+
+async function readBareVideo(file: File): Promise<RecordingSession> {
+  const isMp4 = file.type === 'video/mp4' || /\.mp4$/i.test(file.name);
+  const { width, height, duration } = await probeVideo(file);
+  const created = new Date(file.lastModified || Date.now());
+  const layoutStyle: LayoutStyle = height > width ? 'SHORTS' : 'CIRCLE';
+  const quality: QualityConfig = { resolution: presetForShortSide(Math.min(width, height)), fps: 30 };
+
+  return {
+    id: formatSessionId(created),
+    createdAtISO: created.toISOString(),
+    durationSeconds: Math.round(duration),
+    layoutStyle,
+    quality,
+    videoBlob: new Blob([file], { type: isMp4 ? 'video/mp4' : 'video/webm' }),
+    videoType: isMp4 ? 'mp4' : 'webm',
+    metadata: { webcamPos: { x: 85, y: 85 }, canvas: { width, height } }
+  };
+}
+
+async function readZip(file: Blob): Promise<RecordingSession[]> {
+  const zip = await JSZip.loadAsync(file);
+  if (zip.file(MANIFEST_FILE)) return [await readBundle(zip)];
+  // A multi-session archive: one bundle per top-level folder.
+  const dirs = Object.keys(zip.files)
+    .filter(name => name.split('/').length === 2 && name.endsWith(`/${MANIFEST_FILE}`))
+    .map(name => name.slice(0, -MANIFEST_FILE.length));
+  if (dirs.length === 0) throw new Error('Bundle has no metadata.json.');
+  const sessions: RecordingSession[] = [];
+  for (const dir of dirs) sessions.push(await readBundle(zip, dir));
+  return sessions;
+}
+
+// Reads a DecDecRec ZIP bundle (single or multi-session) or a bare WebM/MP4
+// into sessions. The caller resolves id collisions before saving.
+export async function importFile(file: File): Promise<RecordingSession[]> {
+  if (file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || /\.zip$/i.test(file.name)) {
+    return readZip(file);
+  }
+  if (file.type.startsWith('video/') || /\.(webm|mp4)$/i.test(file.name)) {
+    return [await readBareVideo(file)];
+  }
+  throw new Error(`${file.name} is not a ZIP bundle, WebM or MP4.`);
+}
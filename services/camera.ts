@@ -0,0 +1,176 @@
+import { LayoutDefinition, PointerEffects, ZoomCamera, ZoomKeyframe } from '../types';
+import { Canvas2D, CompositorState, PixelRect, ZoomView, regionRect } from './compositor';
+
+const EFFECTS_KEY = 'decdecrec.pointerEffects';
+
+export const ZOOM_TRANSITION_MS = 600;
+export const MAX_ZOOM = 4;
+// What the zoom hotkey zooms to, centred on the pointer.
+export const HOTKEY_ZOOM = 2;
+// Drags smaller than this (fraction of the region) are clicks, not zoom rectangles.
+const MIN_ZOOM_RECT = 0.04;
+const RIPPLE_MS = 600;
+
+export const FULL_FRAME: ZoomCamera = { x: 0.5, y: 0.5, scale: 1 };
+
+export const DEFAULT_POINTER_EFFECTS: PointerEffects = { clickRipples: true, spotlight: false };
+
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+// Keeps the view inside the region, so panning never shows past the frame edge.
+export function viewOf(camera: ZoomCamera): ZoomView {
+  const size = 1 / clamp(camera.scale, 1, MAX_ZOOM);
+  return {
+    left: clamp(camera.x - size / 2, 0, 1 - size),
+    top: clamp(camera.y - size / 2, 0, 1 - size),
+    size
+  };
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+// The tightest camera that still shows all of `rect` (region coordinates).
+export function cameraForRect(rect: NormalizedRect): ZoomCamera | null {
+  if (rect.w < MIN_ZOOM_RECT && rect.h < MIN_ZOOM_RECT) return null;
+  return {
+    x: round3(rect.x + rect.w / 2),
+    y: round3(rect.y + rect.h / 2),
+    scale: round3(clamp(1 / Math.max(rect.w, rect.h), 1, MAX_ZOOM))
+  };
+}
+
+// Clamps edited keyframes into range and sorts them. The first one stays the
+// starting camera at t=0.
+export function normalizeZoomTimeline(keyframes: ZoomKeyframe[], durationSeconds: number): ZoomKeyframe[] {
+  const sorted = keyframes
+    .map(k => ({
+      t: round3(clamp(k.t, 0, durationSeconds)),
+      x: round3(clamp(k.x, 0, 1)),
+      y: round3(clamp(k.y, 0, 1)),
+      scale: round3(clamp(k.scale, 1, MAX_ZOOM))
+    }))
+    .sort((a, b) => a.t - b.t);
+  if (sorted.length === 0 || sorted[0].t > 0) sorted.unshift({ t: 0, ...FULL_FRAME });
+  return sorted;
+}
+
+// The layout region the camera acts on, in canvas pixels.
+export function screenRegionRect(layout: LayoutDefinition, width: number, height: number, state: CompositorState): PixelRect | null {
+  const region = layout.regions.find(r => r.source === 'screen');
+  return region ? regionRect(region, width, height, state) : null;
+}
+
+// Maps a rect drawn on the (possibly already zoomed) canvas, in canvas pixels,
+// to the whole screen region, clipped to it.
+export function canvasRectToRegion(rect: PixelRect, region: PixelRect, current: ZoomCamera): NormalizedRect | null {
+  const x0 = clamp((rect.x - region.x) / region.w, 0, 1);
+  const y0 = clamp((rect.y - region.y) / region.h, 0, 1);
+  const x1 = clamp((rect.x + rect.w - region.x) / region.w, 0, 1);
+  const y1 = clamp((rect.y + rect.h - region.y) / region.h, 0, 1);
+  if (x1 <= x0 || y1 <= y0) return null;
+  const view = viewOf(current);
+  return {
+    x: view.left + x0 * view.size,
+    y: view.top + y0 * view.size,
+    w: (x1 - x0) * view.size,
+    h: (y1 - y0) * view.size
+  };
+}
+
+const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+// Eases the visible rect (not centre and scale separately), so the pan and
+// zoom land together without overshooting the frame edge.
+export class CameraAnimator {
+  private from: ZoomView = viewOf(FULL_FRAME);
+  private to: ZoomView = viewOf(FULL_FRAME);
+  private startedAt = -Infinity;
+
+  set(camera: ZoomCamera, now: number) {
+    this.from = this.current(now);
+    this.to = viewOf(camera);
+    this.startedAt = now;
+  }
+
+  current(now: number): ZoomView {
+    const p = (now - this.startedAt) / ZOOM_TRANSITION_MS;
+    if (p >= 1) return this.to;
+    const e = easeInOutCubic(Math.max(0, p));
+    const lerp = (a: number, b: number) => a + (b - a) * e;
+    return {
+      left: lerp(this.from.left, this.to.left),
+      top: lerp(this.from.top, this.to.top),
+      size: lerp(this.from.size, this.to.size)
+    };
+  }
+}
+
+// Click ripples and a spotlight around the pointer, drawn over the composite.
+// Positions are percent of the canvas, like the webcam position.
+export class PointerOverlay {
+  private pointer: { x: number; y: number } | null = null;
+  private ripples: { x: number; y: number; at: number }[] = [];
+
+  constructor(private effects: PointerEffects = DEFAULT_POINTER_EFFECTS) {}
+
+  setEffects(effects: PointerEffects) {
+    this.effects = effects;
+    if (!effects.clickRipples) this.ripples = [];
+  }
+
+  setPointer(pointer: { x: number; y: number } | null) {
+    this.pointer = pointer;
+  }
+
+  click(x: number, y: number, now: number) {
+    if (this.effects.clickRipples) this.ripples.push({ x, y, at: now });
+  }
+
+  draw(ctx: Canvas2D, width: number, height: number, now: number) {
+    const unit = Math.min(width, height);
+
+    if (this.effects.spotlight && this.pointer) {
+      const px = (this.pointer.x / 100) * width;
+      const py = (this.pointer.y / 100) * height;
+      const radius = unit * 0.14;
+      const shade = ctx.createRadialGradient(px, py, radius * 0.75, px, py, radius * 1.25);
+      shade.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      shade.addColorStop(1, 'rgba(0, 0, 0, 0.55)');
+      ctx.fillStyle = shade;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    this.ripples = this.ripples.filter(r => now - r.at < RIPPLE_MS);
+    for (const ripple of this.ripples) {
+      const p = (now - ripple.at) / RIPPLE_MS;
+      const radius = unit * (0.01 + 0.05 * easeInOutCubic(p));
+      ctx.beginPath();
+      ctx.arc((ripple.x / 100) * width, (ripple.y / 100) * height, radius, 0, Math.PI * 2);
+      ctx.fillStyle = `rgba(255, 255, 255, ${0.25 * (1 - p)})`;
+      ctx.fill();
+      ctx.lineWidth = Math.max(2, unit * 0.004);
+      ctx.strokeStyle = `rgba(255, 255, 255, ${1 - p})`;
+      ctx.stroke();
+    }
+  }
+}
+
+export function loadPointerEffects(): PointerEffects {
+  try {
+    const raw = localStorage.getItem(EFFECTS_KEY);
+    return raw ? { ...DEFAULT_POINTER_EFFECTS, ...JSON.parse(raw) } : DEFAULT_POINTER_EFFECTS;
+  } catch (e) {
+    return DEFAULT_POINTER_EFFECTS;
+  }
+}
+
+export function savePointerEffects(effects: PointerEffects) {
+  localStorage.setItem(EFFECTS_KEY, JSON.stringify(effects));
+}
@@ -0,0 +1,388 @@
+import { CaptionCue, CaptionStyle, FFmpegTaskOptions, TimeRange, TranscriptWord } from '../types';
+import { Canvas2D } from './compositor';
+import { FFmpegCancelledError } from './ffmpeg';
+import { acquireObjectUrl, releaseObjectUrl } from './objectUrls';
+import { DEFAULT_QUALITY, pickRecordingFormat } from './quality';
+import { seekable } from './webm';
+
+const STYLE_KEY = 'decdecrec.captionStyle';
+
+export const CAPTION_FONTS: { label: string; value: string }[] = [
+  { label: 'Inter', value: "'Inter', sans-serif" },
+  { label: 'Impact', value: "Impact, 'Arial Black', sans-serif" },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Mono', value: "'SF Mono', Menlo, Consolas, monospace" }
+];
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: CAPTION_FONTS[0].value,
+  fontSize: 6,
+  fontWeight: 800,
+  position: 'bottom',
+  textColor: '#ffffff',
+  highlightColor: '#facc15',
+  outline: true,
+  background: false,
+  uppercase: false,
+  karaoke: true
+};
+
+// Words may start a little before their cue (Whisper rounds segment bounds).
+const WORD_SLACK_SECONDS = 0.05;
+const MAX_LINE_WIDTH = 0.86; // of the frame width
+const EDGE_MARGIN = 0.08; // of the frame height
+// A recording that hasn't produced metadata by now won't decode at all.
+const LOAD_TIMEOUT_MS = 30000;
+
+export function loadCaptionStyle(): CaptionStyle {
+  try {
+    const raw = localStorage.getItem(STYLE_KEY);
+    return raw ? { ...DEFAULT_CAPTION_STYLE, ...JSON.parse(raw) } : { ...DEFAULT_CAPTION_STYLE };
+  } catch (e) {
+    return { ...DEFAULT_CAPTION_STYLE };
+  }
+}
+
+export function saveCaptionStyle(style: CaptionStyle) {
+  localStorage.setItem(STYLE_KEY, JSON.stringify(style));
+}
+
+// Accepts SRT (00:00:01,000) and VTT (00:01.000 or 00:00:01.000) timestamps.
+export function parseTimestamp(raw: string): number | null {
+  const m = raw.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!m) return null;
+  const [, h = '0', min, sec, frac] = m;
+  return Number(h) * 3600 + Number(min) * 60 + Number(sec) + Number(frac.padEnd(3, '0')) / 1000;
+}
+
+const TIMING_LINE = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+function parseBlocks(text: string, skip: (block: string[]) => boolean): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  const blocks = text.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  for (const raw of blocks) {
+    const lines = raw.split('\n').filter(l => l.trim() !== '');
+    if (lines.length === 0 || skip(lines)) continue;
+    const timingIndex = lines.findIndex(l => TIMING_LINE.test(l));
+    if (timingIndex < 0 || timingIndex > 1) continue;
+    const [, from, to] = lines[timingIndex].match(TIMING_LINE)!;
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(to);
+    if (start === null || end === null || end <= start) continue;
+    const body = lines.slice(timingIndex + 1).join('\n')
+      .replace(/<[^>]*>/g, '') // VTT voice/class/inline-timestamp tags
+      .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+      .trim();
+    if (body) cues.push({ start, end, text: body });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+export const parseSrt = (text: string) => parseBlocks(text, () => false);
+
+export const parseVtt = (text: string) =>
+  parseBlocks(text, lines => /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0]));
+
+export const parseCaptions = (text: string) =>
+  /^﻿?WEBVTT/.test(text) ? parseVtt(text) : parseSrt(text);
+
+// Hands each cue the transcript words that fall inside it.
+export function attachWords(cues: CaptionCue[], words: TranscriptWord[] | undefined): CaptionCue[] {
+  if (!words?.length) return cues;
+  return cues.map(cue => ({
+    ...cue,
+    words: words.filter(w => w.start >= cue.start - WORD_SLACK_SECONDS && w.start < cue.end)
+  }));
+}
+
+// Rebuilds word timings after the cues were edited. A cue with as many words
+// as before keeps the recognised timings under the new spelling; otherwise
+// its words are spread evenly across the cue.
+export function realignWords(cues: CaptionCue[], words: TranscriptWord[] | undefined): TranscriptWord[] | undefined {
+  if (!words?.length) return undefined;
+  return attachWords(cues, words).flatMap(cue => {
+    const tokens = cue.text.split(/\s+/).filter(Boolean);
+    const recognised = cue.words || [];
+    if (recognised.length === tokens.length) return tokens.map((word, i) => ({ ...recognised[i], word }));
+    const step = (cue.end - cue.start) / tokens.length;
+    return tokens.map((word, i) => ({ word, start: cue.start + i * step, end: cue.start + (i + 1) * step }));
+  });
+}
+
+export function activeCue(cues: CaptionCue[], t: number): CaptionCue | null {
+  for (const cue of cues) {
+    if (cue.start > t) break;
+    if (t < cue.end) return cue;
+  }
+  return null;
+}
+
+// Moves cues onto the timeline of an edited export. A cue that spans a cut
+// closes up with it; cues that fall entirely inside removed ranges are dropped.
+export function retimeCues(cues: CaptionCue[], segments: TimeRange[]): CaptionCue[] {
+  // Source time -> edited time; anything inside a removed range lands on the seam.
+  const toEdited = (t: number) => {
+    let offset = 0;
+    for (const seg of segments) {
+      if (t < seg.start) return offset;
+      if (t <= seg.end) return offset + t - seg.start;
+      offset += seg.end - seg.start;
+    }
+    return offset;
+  };
+  const retime = <T extends { start: number; end: number }>(item: T): T | null => {
+    const start = toEdited(item.start);
+    const end = toEdited(item.end);
+    return end > start ? { ...item, start, end } : null;
+  };
+
+  const out: CaptionCue[] = [];
+  for (const cue of cues) {
+    const moved = retime(cue);
+    if (!moved) continue;
+    if (cue.words) moved.words = cue.words.map(retime).filter((w): w is TranscriptWord => w !== null);
+    out.push(moved);
+  }
+  return out;
+}
+
+export const MIN_CUE_SECONDS = 0.1;
+
+// Splits a cue in two at `at`. The text breaks at the word being spoken then
+// when word timings line up with it, otherwise in proportion to the time.
+export function splitCue(cues: CaptionCue[], index: number, at: number, words?: TranscriptWord[]): CaptionCue[] {
+  const cue = cues[index];
+  const tokens = cue?.text.split(/\s+/).filter(Boolean) || [];
+  if (!cue || tokens.length < 2 || cue.end - cue.start < MIN_CUE_SECONDS * 2) return cues;
+
+  const t = Math.max(cue.start + MIN_CUE_SECONDS, Math.min(cue.end - MIN_CUE_SECONDS, at));
+  const timed = words?.filter(w => w.start >= cue.start - WORD_SLACK_SECONDS && w.start < cue.end);
+  let k = timed && timed.length === tokens.length
+    ? timed.findIndex(w => w.start >= t)
+    : Math.round((tokens.length * (t - cue.start)) / (cue.end - cue.start));
+  if (k < 0) k = tokens.length - 1;
+  k = Math.max(1, Math.min(tokens.length - 1, k));
+
+  return [
+    ...cues.slice(0, index),
+    { start: cue.start, end: t, text: tokens.slice(0, k).join(' ') },
+    { start: t, end: cue.end, text: tokens.slice(k).join(' ') },
+    ...cues.slice(index + 1)
+  ];
+}
+
+// Joins a cue with the one after it.
+export function mergeCues(cues: CaptionCue[], index: number): CaptionCue[] {
+  const a = cues[index];
+  const b = cues[index + 1];
+  if (!a || !b) return cues;
+  return [
+    ...cues.slice(0, index),
+    { start: a.start, end: Math.max(a.end, b.end), text: `${a.text} ${b.text}` },
+    ...cues.slice(index + 2)
+  ];
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findPattern = (find: string, caseSensitive: boolean) =>
+  new RegExp(escapeRegExp(find), caseSensitive ? 'g' : 'gi');
+
+export function countMatches(cues: CaptionCue[], find: string, caseSensitive = false): number {
+  if (!find) return 0;
+  const pattern = findPattern(find, caseSensitive);
+  return cues.reduce((n, cue) => n + (cue.text.match(pattern)?.length || 0), 0);
+}
+
+export function replaceInCues(cues: CaptionCue[], find: string, replace: string, caseSensitive = false): CaptionCue[] {
+  if (!find) return cues;
+  const pattern = findPattern(find, caseSensitive);
+  return cues.map(cue => ({ ...cue, text: cue.text.replace(pattern, () => replace) }));
+}
+
+// The plain-text transcript that goes to transcript.txt.
+export const cuesToTranscript = (cues: CaptionCue[]) =>
+  cues.map(cue => cue.text.replace(/\s+/g, ' ').trim()).filter(Boolean).join(' ');
+
+interface Token {
+  text: string;
+  width: number;
+  word?: TranscriptWord;
+}
+
+function wrapTokens(tokens: Token[], maxWidth: number, spaceWidth: number): Token[][] {
+  const lines: Token[][] = [];
+  let line: Token[] = [];
+  let lineWidth = 0;
+  for (const token of tokens) {
+    const added = line.length ? spaceWidth + token.width : token.width;
+    if (line.length && lineWidth + added > maxWidth) {
+      lines.push(line);
+      line = [token];
+      lineWidth = token.width;
+    } else {
+      line.push(token);
+      lineWidth += added;
+    }
+  }
+  if (line.length) lines.push(line);
+  return lines;
+}
+
+// Renders the cue active at `t` onto a frame. Shared by the live preview
+// overlay and the burn-in export so both look identical.
+export function drawCaptions(ctx: Canvas2D, cues: CaptionCue[], t: number, style: CaptionStyle, width: number, height: number) {
+  const cue = activeCue(cues, t);
+  if (!cue) return;
+
+  const px = Math.max(8, Math.round((style.fontSize / 100) * Math.min(width, height)));
+  const lineHeight = px * 1.25;
+  ctx.save();
+  ctx.font = `${style.fontWeight} ${px}px ${style.fontFamily}`;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  const words = cue.text.split(/\s+/).filter(Boolean);
+  // Word timings only line up with the text when the counts agree; an
+  // edited cue falls back to plain rendering rather than highlighting the wrong word.
+  const timed = style.karaoke && cue.words?.length === words.length ? cue.words : undefined;
+  const tokens: Token[] = words.map((w, i) => {
+    const text = style.uppercase ? w.toUpperCase() : w;
+    return { text, width: ctx.measureText(text).width, word: timed?.[i] };
+  });
+  const spaceWidth = ctx.measureText(' ').width;
+  const lines = wrapTokens(tokens, width * MAX_LINE_WIDTH, spaceWidth);
+
+  const blockHeight = lines.length * lineHeight;
+  const top = style.position === 'top'
+    ? height * EDGE_MARGIN
+    : style.position === 'middle'
+      ? (height - blockHeight) / 2
+      : height * (1 - EDGE_MARGIN) - blockHeight;
+
+  let spoken: TranscriptWord | undefined;
+  if (timed) for (const w of timed) if (w.start <= t) spoken = w;
+
+  lines.forEach((line, i) => {
+    const lineWidth = line.reduce((sum, tok) => sum + tok.width, 0) + spaceWidth * (line.length - 1);
+    const y = top + i * lineHeight + lineHeight / 2;
+    let x = (width - lineWidth) / 2;
+
+    if (style.background) {
+      const pad = px * 0.3;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.beginPath();
+      ctx.roundRect(x - pad, y - lineHeight / 2, lineWidth + pad * 2, lineHeight, px * 0.2);
+      ctx.fill();
+    }
+    for (const tok of line) {
+      if (style.outline) {
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+        ctx.lineWidth = px * 0.14;
+        ctx.strokeText(tok.text, x, y);
+      }
+      ctx.fillStyle = tok.word && tok.word === spoken ? style.highlightColor : style.textColor;
+      ctx.fillText(tok.text, x, y);
+      x += tok.width + spaceWidth;
+    }
+  });
+  ctx.restore();
+}
+
+// Plays the recording through a hidden <video>, draws each frame plus the
+// captions onto a canvas and re-records it, the same way the recorder
+// composites a take. Runs in real time; the tab needs to stay visible.
+export async function burnInCaptions(
+  video: Blob,
+  durationSeconds: number,
+  cues: CaptionCue[],
+  style: CaptionStyle,
+  fps: number,
+  options: FFmpegTaskOptions = {}
+): Promise<Blob> {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) throw new FFmpegCancelledError();
+
+  const el = document.createElement('video');
+  el.preload = 'auto';
+  el.playsInline = true;
+  el.src = acquireObjectUrl(video);
+  const audioCtx = new AudioContext();
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = window.setTimeout(() => reject(new Error('Timed out loading the recording')), LOAD_TIMEOUT_MS);
+      const settle = (fn: () => void) => () => {
+        clearTimeout(timeout);
+        fn();
+      };
+      el.onloadedmetadata = settle(resolve);
+      el.onerror = settle(() => reject(new Error('Could not decode the recording')));
+      signal?.addEventListener('abort', settle(() => reject(new FFmpegCancelledError())), { once: true });
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = el.videoWidth;
+    canvas.height = el.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+
+    // Route the soundtrack into the new stream instead of the speakers.
+    const audioOut = audioCtx.createMediaStreamDestination();
+    audioCtx.createMediaElementSource(el).connect(audioOut);
+    const stream = canvas.captureStream(fps);
+    audioOut.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const format = pickRecordingFormat(DEFAULT_QUALITY);
+    const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+
+    const draw = () => {
+      ctx.drawImage(el, 0, 0, canvas.width, canvas.height);
+      drawCaptions(ctx, cues, el.currentTime, style, canvas.width, canvas.height);
+      onProgress?.({ stage: 'processing', ratio: Math.min(1, el.currentTime / (durationSeconds || 1)), timeSeconds: el.currentTime });
+    };
+    const useFrameCallback = 'requestVideoFrameCallback' in el;
+    let interval: number | undefined;
+    const onFrame = () => {
+      draw();
+      if (!el.ended && !el.paused) el.requestVideoFrameCallback(onFrame);
+    };
+
+    const finished = new Promise<void>((resolve, reject) => {
+      el.onended = () => resolve();
+      el.onerror = () => reject(new Error('Playback failed while burning in captions'));
+      signal?.addEventListener('abort', () => reject(new FFmpegCancelledError()), { once: true });
+    });
+
+    onProgress?.({ stage: 'processing', ratio: 0, timeSeconds: 0 });
+    await audioCtx.resume();
+    draw();
+    recorder.start(1000);
+    await el.play();
+    if (useFrameCallback) el.requestVideoFrameCallback(onFrame);
+    else interval = window.setInterval(draw, 1000 / fps);
+
+    try {
+      await finished;
+    } finally {
+      if (interval !== undefined) clearInterval(interval);
+      el.pause();
+      if (recorder.state !== 'inactive') {
+        const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+        recorder.stop();
+        await stopped;
+      }
+    }
+    onProgress?.({ stage: 'done', ratio: 1, timeSeconds: durationSeconds });
+    const blob = new Blob(chunks, { type: format.mimeType.split(';')[0] });
+    return format.container === 'webm' ? (await seekable(blob, durationSeconds)).blob : blob;
+  } finally {
+    audioCtx.close();
+    el.removeAttribute('src');
+    el.load();
+    releaseObjectUrl(video);
+  }
+}
@@ -0,0 +1,50 @@
+import { Chapter, RecordingMarker } from '../types';
+import { formatSrtTimestamp } from './transcription';
+
+// YouTube ignores chapter lists with a chapter shorter than this.
+export const MIN_YOUTUBE_CHAPTER_SECONDS = 10;
+
+export const formatChapterTimestamp = (sec: number) => {
+  const total = Math.max(0, Math.floor(sec));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Turns markers into back-to-back chapters covering the whole recording.
+// A marker is the start of its chapter; an "Intro" chapter fills any gap before the first.
+export function markersToChapters(markers: RecordingMarker[], durationSeconds: number): Chapter[] {
+  const starts = [...markers]
+    .filter(m => m.t >= 0 && m.t < durationSeconds)
+    .sort((a, b) => a.t - b.t);
+  if (starts.length === 0) return [];
+
+  const points = starts[0].t > 0.5 ? [{ t: 0, label: 'Intro' }, ...starts] : [{ ...starts[0], t: 0 }, ...starts.slice(1)];
+  return points.map((m, i) => ({
+    start: m.t,
+    end: i + 1 < points.length ? points[i + 1].t : durationSeconds,
+    title: m.label?.trim() || `Chapter ${i + 1}`
+  }));
+}
+
+// One "m:ss Title" line per chapter, ready to paste into a video description.
+// Chapters too short for YouTube are folded into the one before.
+export function toYouTubeChapters(chapters: Chapter[]): string {
+  const merged: Chapter[] = [];
+  for (const chapter of chapters) {
+    const prev = merged[merged.length - 1];
+    if (prev && chapter.start - prev.start < MIN_YOUTUBE_CHAPTER_SECONDS) {
+      prev.end = chapter.end;
+      continue;
+    }
+    merged.push({ ...chapter });
+  }
+  return merged.map(c => `${formatChapterTimestamp(c.start)} ${c.title}`).join('\n') + '\n';
+}
+
+export function toVttChapters(chapters: Chapter[]): string {
+  const vttTime = (sec: number) => formatSrtTimestamp(sec).replace(',', '.');
+  const cues = chapters.map((c, i) => `Chapter ${i + 1}\n${vttTime(c.start)} --> ${vttTime(c.end)}\n${c.title}`);
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
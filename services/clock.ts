@@ -0,0 +1,68 @@
+import { ClockSegment, RecordingTimeline } from '../types';
+
+// Wall-clock timing for a take, independent of render timers and MediaRecorder
+// events. Everything is measured with performance.now(), which is monotonic
+// and keeps counting while the tab is throttled in the background.
+export class RecordingClock {
+  private startedAtMs = 0;
+  private startedAtISO = '';
+  private segments: { start: number; end: number | null }[] = [];
+  private stoppedAtMs: number | null = null;
+
+  public start(now = performance.now()) {
+    this.startedAtMs = now;
+    this.startedAtISO = new Date().toISOString();
+    this.segments = [{ start: now, end: null }];
+    this.stoppedAtMs = null;
+  }
+
+  public get running(): boolean {
+    return this.segments.length > 0 && this.stoppedAtMs === null;
+  }
+
+  public get paused(): boolean {
+    const last = this.segments[this.segments.length - 1];
+    return this.running && !!last && last.end !== null;
+  }
+
+  public pause(now = performance.now()) {
+    const last = this.segments[this.segments.length - 1];
+    if (this.running && last && last.end === null) last.end = now;
+  }
+
+  public resume(now = performance.now()) {
+    if (this.paused) this.segments.push({ start: now, end: null });
+  }
+
+  public stop(now = performance.now()) {
+    if (!this.running) return;
+    this.pause(now);
+    this.stoppedAtMs = now;
+  }
+
+  public reset() {
+    this.segments = [];
+    this.stoppedAtMs = null;
+  }
+
+  // Seconds of recorded (non-paused) time.
+  public elapsedSeconds(now = performance.now()): number {
+    return this.segments.reduce((sum, s) => sum + ((s.end ?? now) - s.start), 0) / 1000;
+  }
+
+  public getTimeline(now = performance.now()): RecordingTimeline {
+    const end = this.stoppedAtMs ?? now;
+    const toSeconds = (ms: number) => Math.round(ms) / 1000;
+    const segments: ClockSegment[] = this.segments.map(s => ({
+      start: toSeconds(s.start - this.startedAtMs),
+      end: toSeconds((s.end ?? now) - this.startedAtMs)
+    }));
+    const activeSeconds = toSeconds(this.elapsedSeconds(now) * 1000);
+    return {
+      startedAtISO: this.startedAtISO,
+      segments,
+      activeSeconds,
+      pausedSeconds: Math.max(0, toSeconds(end - this.startedAtMs) - activeSeconds)
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import { LayoutDefinition, LayoutRegion, LayoutSource, RegionFit, WebcamAppearance } from '../types';
+import { colourFilter, styleDivider, styleWebcamRegion } from './webcamStyle';
+
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface FrameSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+export type FrameSources = Partial<Record<LayoutSource, FrameSource | null>>;
+
+export interface CompositorState {
+  webcamPos: { x: number; y: number }; // percent of canvas
+  webcamSize: number; // px
+  screenView?: ZoomView; // the zoomed part of the screen region; whole region when absent
+  webcam?: WebcamAppearance;
+}
+
+export interface RegionEffects {
+  mirror?: boolean;
+  filter?: string; // ctx.filter value
+  shadow?: boolean;
+}
+
+// The visible part of a region, normalised to it: a square fraction `size` of
+// each side, offset by left/top.
+export interface ZoomView {
+  left: number;
+  top: number;
+  size: number;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export function videoFrameSource(video: HTMLVideoElement): FrameSource | null {
+  if (video.readyState < 2 || video.videoWidth === 0) return null;
+  return { image: video, width: video.videoWidth, height: video.videoHeight };
+}
+
+export function regionRect(region: LayoutRegion, width: number, height: number, state: CompositorState): PixelRect {
+  if (region.movable) {
+    const cx = (state.webcamPos.x / 100) * width;
+    const cy = (state.webcamPos.y / 100) * height;
+    const size = state.webcamSize;
+    return { x: cx - size / 2, y: cy - size / 2, w: size, h: size };
+  }
+  return {
+    x: region.rect.x * width,
+    y: region.rect.y * height,
+    w: region.rect.w * width,
+    h: region.rect.h * height
+  };
+}
+
+// The rect the full frame must be drawn into so that `view` fills `r`.
+export function zoomedRect(r: PixelRect, view: ZoomView): PixelRect {
+  const w = r.w / view.size;
+  const h = r.h / view.size;
+  return { x: r.x - view.left * w, y: r.y - view.top * h, w, h };
+}
+
+function tracePath(ctx: Canvas2D, region: LayoutRegion, r: PixelRect) {
+  ctx.beginPath();
+  if (region.shape === 'circle') {
+    ctx.arc(r.x + r.w / 2, r.y + r.h / 2, Math.min(r.w, r.h) / 2, 0, Math.PI * 2);
+  } else if (region.shape === 'rounded') {
+    ctx.roundRect(r.x, r.y, r.w, r.h, (region.cornerRadius ?? 0.1) * Math.min(r.w, r.h));
+  } else {
+    ctx.rect(r.x, r.y, r.w, r.h);
+  }
+}
+
+export function drawFitted(ctx: Canvas2D, src: FrameSource, fit: RegionFit, r: PixelRect) {
+  if (fit === 'stretch') {
+    ctx.drawImage(src.image, r.x, r.y, r.w, r.h);
+    return;
+  }
+  const imgAspect = src.width / src.height;
+  const targetAspect = r.w / r.h;
+
+  if (fit === 'contain') {
+    let w = r.w;
+    let h = r.h;
+    if (imgAspect > targetAspect) h = r.w / imgAspect;
+    else w = r.h * imgAspect;
+    ctx.drawImage(src.image, r.x + (r.w - w) / 2, r.y + (r.h - h) / 2, w, h);
+    return;
+  }
+
+  let sWidth, sHeight, sx, sy;
+  if (imgAspect > targetAspect) {
+    sHeight = src.height;
+    sWidth = src.height * targetAspect;
+    sx = (src.width - sWidth) / 2;
+    sy = 0;
+  } else {
+    sWidth = src.width;
+    sHeight = src.width / targetAspect;
+    sx = 0;
+    sy = (src.height - sHeight) / 2;
+  }
+  ctx.drawImage(src.image, sx, sy, sWidth, sHeight, r.x, r.y, r.w, r.h);
+}
+
+export function drawRegion(ctx: Canvas2D, region: LayoutRegion, src: FrameSource | null | undefined, r: PixelRect, view?: ZoomView, effects: RegionEffects = {}) {
+  if (!src && !region.background) return;
+
+  if (effects.shadow) {
+    const unit = Math.min(r.w, r.h);
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = unit * 0.12;
+    ctx.shadowOffsetY = unit * 0.04;
+    tracePath(ctx, region, r);
+    ctx.fillStyle = region.background || 'black';
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.save();
+  tracePath(ctx, region, r);
+  ctx.clip();
+  if (src) {
+    if (effects.mirror) {
+      ctx.translate(2 * r.x + r.w, 0);
+      ctx.scale(-1, 1);
+    }
+    if (effects.filter && effects.filter !== 'none') ctx.filter = effects.filter;
+    drawFitted(ctx, src, region.fit, view && view.size < 1 ? zoomedRect(r, view) : r);
+  } else {
+    ctx.fillStyle = region.background!;
+    ctx.fillRect(r.x, r.y, r.w, r.h);
+  }
+  ctx.restore();
+
+  if (region.border && region.border.width > 0) {
+    tracePath(ctx, region, r);
+    ctx.strokeStyle = region.border.color;
+    ctx.lineWidth = region.border.width;
+    ctx.stroke();
+  }
+}
+
+export function renderLayout(
+  ctx: Canvas2D,
+  layout: LayoutDefinition,
+  sources: FrameSources,
+  width: number,
+  height: number,
+  state: CompositorState
+) {
+  ctx.fillStyle = layout.background;
+  ctx.fillRect(0, 0, width, height);
+
+  for (const layoutRegion of layout.regions) {
+    const view = layoutRegion.source === 'screen' ? state.screenView : undefined;
+    const webcam = layoutRegion.source === 'webcam' ? state.webcam : undefined;
+    const region = webcam ? styleWebcamRegion(layoutRegion, webcam) : layoutRegion;
+    // A keyed bubble has no solid shape left to cast the shadow.
+    const effects: RegionEffects = webcam
+      ? { mirror: webcam.mirror, filter: colourFilter(webcam), shadow: webcam.shadow && !!region.movable && !webcam.chromaKey.enabled }
+      : {};
+    drawRegion(ctx, region, sources[region.source], regionRect(region, width, height, state), view, effects);
+  }
+
+  for (const layoutDivider of layout.dividers || []) {
+    const divider = state.webcam ? styleDivider(layoutDivider, state.webcam) : layoutDivider;
+    if (!divider) continue;
+    ctx.strokeStyle = divider.color;
+    ctx.lineWidth = divider.width;
+    ctx.beginPath();
+    if (divider.orientation === 'horizontal') {
+      ctx.moveTo(0, divider.at * height);
+      ctx.lineTo(width, divider.at * height);
+    } else {
+      ctx.moveTo(divider.at * width, 0);
+      ctx.lineTo(divider.at * width, height);
+    }
+    ctx.stroke();
+  }
+}
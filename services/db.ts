@@ -1,67 +1,391 @@
 
-import { RecordingSession } from '../types';
+import {
+  RecordingSession,
+  PendingRecording,
+  RecordingChunk,
+  ChunkTrack,
+  SessionSummary,
+  SessionBlobs,
+  SessionPage,
+  SessionPageQuery,
+  SessionMetadata
+} from '../types';
 
 const DB_NAME = 'AIScreenRecorderDB';
 const STORE_NAME = 'sessions';
-const DB_VERSION = 1;
+const BLOB_STORE = 'sessionBlobs';
+const PENDING_STORE = 'pendingRecordings';
+const CHUNK_STORE = 'recordingChunks';
+const DEFAULT_PAGE_SIZE = 48;
 
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Each entry upgrades the schema from version (n - 1) to n. Append new
+// migrations at the end; never edit one that has shipped.
+const MIGRATIONS: Migration[] = [
+  // v1: sessions, blobs included
+  (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    }
+  },
+  // v2: crash-safe chunk persistence
+  (db) => {
+    if (!db.objectStoreNames.contains(PENDING_STORE)) {
+      db.createObjectStore(PENDING_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+      const chunks = db.createObjectStore(CHUNK_STORE, { keyPath: 'key', autoIncrement: true });
+      chunks.createIndex('recordingId', 'recordingId', { unique: false });
+    }
+  },
+  // v3: media moves to its own store, sessions keep metadata only
+  (db, tx) => {
+    if (!db.objectStoreNames.contains(BLOB_STORE)) {
+      db.createObjectStore(BLOB_STORE, { keyPath: 'id' });
+    }
+    const sessions = tx.objectStore(STORE_NAME);
+    if (!sessions.indexNames.contains('createdAtISO')) sessions.createIndex('createdAtISO', 'createdAtISO');
+    if (!sessions.indexNames.contains('layoutStyle')) sessions.createIndex('layoutStyle', 'layoutStyle');
+    if (!sessions.indexNames.contains('durationSeconds')) sessions.createIndex('durationSeconds', 'durationSeconds');
+
+    const blobs = tx.objectStore(BLOB_STORE);
+    sessions.openCursor().onsuccess = (e: any) => {
+      const cursor: IDBCursorWithValue | null = e.target.result;
+      if (!cursor) return;
+      const value = cursor.value;
+      if (value.videoBlob) {
+        const { summary, media } = splitSession(value as RecordingSession);
+        blobs.put(media);
+        cursor.update(summary);
+      }
+      cursor.continue();
+    };
+  },
+  // v4: Library sort by size
+  (_db, tx) => {
+    const sessions = tx.objectStore(STORE_NAME);
+    if (!sessions.indexNames.contains('videoBytes')) sessions.createIndex('videoBytes', 'videoBytes');
+  }
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function splitSession(session: RecordingSession): { summary: SessionSummary; media: SessionBlobs } {
+  const { videoBlob, audioBlob, ...rest } = session;
+  return {
+    summary: { ...rest, videoBytes: videoBlob.size, audioBytes: audioBlob?.size || 0 },
+    media: { id: session.id, videoBlob, audioBlob }
+  };
+}
+
+// True while a schema upgrade waits for another tab to close its connection.
+let upgradeBlocked = false;
+const blockedListeners = new Set<(blocked: boolean) => void>();
+
+function setUpgradeBlocked(blocked: boolean) {
+  if (upgradeBlocked === blocked) return;
+  upgradeBlocked = blocked;
+  blockedListeners.forEach(l => l(blocked));
+}
+
+export function subscribeUpgradeBlocked(listener: (blocked: boolean) => void): () => void {
+  blockedListeners.add(listener);
+  listener(upgradeBlocked);
+  return () => blockedListeners.delete(listener);
+}
+
+// The connection is shared: recording writes a chunk every second and
+// reopening the database for each one would be wasteful.
 export async function initDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-    request.onupgradeneeded = (event: any) => {
-      const db = event.target.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    request.onerror = () => {
+      setUpgradeBlocked(false);
+      reject(request.error);
+    };
+    request.onblocked = () => setUpgradeBlocked(true);
+    request.onsuccess = () => {
+      setUpgradeBlocked(false);
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version - 1](db, tx);
       }
     };
+  }).catch(err => {
+    dbPromise = null;
+    throw err;
   });
+  return dbPromise;
 }
 
 export async function saveSession(session: RecordingSession): Promise<void> {
+  const db = await initDB();
+  const { summary, media } = splitSession(session);
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, BLOB_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).put(summary);
+    transaction.objectStore(BLOB_STORE).put(media);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Metadata-only update; the media is never read or rewritten.
+export async function updateSession(id: string, patch: Partial<Omit<SessionSummary, 'id'>>): Promise<SessionSummary> {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(session);
-    request.onsuccess = () => resolve();
+    const request = store.get(id);
+    let updated: SessionSummary;
+    request.onsuccess = () => {
+      if (!request.result) {
+        transaction.abort();
+        reject(new Error(`Session ${id} not found`));
+        return;
+      }
+      updated = { ...request.result, ...patch, id };
+      store.put(updated);
+    };
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getSessionSummary(id: string): Promise<SessionSummary | null> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(id);
+    request.onsuccess = () => resolve(request.result || null);
     request.onerror = () => reject(request.error);
   });
 }
 
-export async function getAllSessions(): Promise<RecordingSession[]> {
+export async function getSession(id: string): Promise<RecordingSession | null> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, BLOB_STORE], 'readonly');
+    const summaryRequest = transaction.objectStore(STORE_NAME).get(id);
+    const blobRequest = transaction.objectStore(BLOB_STORE).get(id);
+    transaction.oncomplete = () => {
+      const summary = summaryRequest.result as SessionSummary | undefined;
+      const media = blobRequest.result as SessionBlobs | undefined;
+      if (!summary || !media) {
+        resolve(null);
+        return;
+      }
+      const { videoBytes, audioBytes, ...rest } = summary;
+      resolve({ ...rest, videoBlob: media.videoBlob, audioBlob: media.audioBlob });
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getSessionIds(): Promise<string[]> {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
+    const request = transaction.objectStore(STORE_NAME).getAllKeys();
+    request.onsuccess = () => resolve(request.result as string[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function countSessions(): Promise<number> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).count();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getSessionPage(query: SessionPageQuery = {}): Promise<SessionPage> {
+  const { orderBy = 'createdAtISO', descending = true, layoutStyle, where, limit = DEFAULT_PAGE_SIZE, after } = query;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).index(orderBy).openCursor(null, descending ? 'prev' : 'next');
+    const items: SessionSummary[] = [];
+    let resumed = !after;
     request.onsuccess = () => {
-      const results = request.result as RecordingSession[];
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ items });
+        return;
+      }
+      if (!resumed) {
+        resumed = true;
+        // Only jump when the cursor is still before the resume point; if that
+        // record was deleted the cursor may already be past it.
+        const order = indexedDB.cmp(after!.key, cursor.key) || indexedDB.cmp(after!.primaryKey, cursor.primaryKey);
+        if (descending ? order < 0 : order > 0) {
+          cursor.continuePrimaryKey(after!.key, after!.primaryKey);
+          return;
+        }
+      }
+      // continuePrimaryKey lands on the cursor position itself, which was the last item of the previous page
+      if (after && cursor.key === after.key && cursor.primaryKey === after.primaryKey) {
+        cursor.continue();
+        return;
+      }
+      const summary = cursor.value as SessionSummary;
+      if ((!layoutStyle || summary.layoutStyle === layoutStyle) && (!where || where(summary))) items.push(summary);
+      if (items.length >= limit) {
+        resolve({ items, next: { key: cursor.key, primaryKey: cursor.primaryKey } });
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getAllSessionSummaries(): Promise<SessionSummary[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => {
+      const results = request.result as SessionSummary[];
       resolve(results.sort((a, b) => b.createdAtISO.localeCompare(a.createdAtISO)));
     };
     request.onerror = () => reject(request.error);
   });
 }
 
+// Removes the separate audio-only track, keeping the video (which has the same mix).
+export async function dropSessionAudio(id: string): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, BLOB_STORE], 'readwrite');
+    const sessions = transaction.objectStore(STORE_NAME);
+    const blobs = transaction.objectStore(BLOB_STORE);
+    const summaryRequest = sessions.get(id);
+    const blobRequest = blobs.get(id);
+    summaryRequest.onsuccess = () => {
+      if (summaryRequest.result) sessions.put({ ...summaryRequest.result, audioBytes: 0 });
+    };
+    blobRequest.onsuccess = () => {
+      if (blobRequest.result) {
+        const { audioBlob, ...media } = blobRequest.result as SessionBlobs;
+        blobs.put(media);
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
 export async function deleteSession(id: string): Promise<void> {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    const transaction = db.transaction([STORE_NAME, BLOB_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    transaction.objectStore(BLOB_STORE).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
 export async function clearAllSessions(): Promise<void> {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.clear();
+    const transaction = db.transaction([STORE_NAME, BLOB_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(BLOB_STORE).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function createPendingRecording(pending: PendingRecording): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PENDING_STORE, 'readwrite');
+    const request = transaction.objectStore(PENDING_STORE).put(pending);
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 }
+
+// Writes the chunk and, with `progress`, updates the pending record in one transaction,
+// so a recovered take's time and timelines match the chunks it has.
+export async function appendRecordingChunk(chunk: RecordingChunk, progress?: { elapsedSeconds: number; metadata: SessionMetadata }): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CHUNK_STORE, PENDING_STORE], 'readwrite');
+    transaction.objectStore(CHUNK_STORE).add(chunk);
+    if (progress) {
+      const pendingStore = transaction.objectStore(PENDING_STORE);
+      const get = pendingStore.get(chunk.recordingId);
+      get.onsuccess = () => {
+        const pending = get.result as PendingRecording | undefined;
+        if (pending) {
+          pendingStore.put({ ...pending, ...progress, updatedAtISO: new Date().toISOString() });
+        }
+      };
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getPendingRecordings(): Promise<PendingRecording[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PENDING_STORE, 'readonly');
+    const request = transaction.objectStore(PENDING_STORE).getAll();
+    request.onsuccess = () => resolve(request.result as PendingRecording[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getRecordingChunks(recordingId: string, track: ChunkTrack): Promise<Blob[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CHUNK_STORE, 'readonly');
+    const request = transaction.objectStore(CHUNK_STORE).index('recordingId').getAll(recordingId);
+    request.onsuccess = () => {
+      const chunks = (request.result as RecordingChunk[])
+        .filter(c => c.track === track)
+        .sort((a, b) => a.seq - b.seq);
+      resolve(chunks.map(c => c.data));
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deletePendingRecording(recordingId: string): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CHUNK_STORE, PENDING_STORE], 'readwrite');
+    transaction.objectStore(PENDING_STORE).delete(recordingId);
+    const cursorRequest = transaction.objectStore(CHUNK_STORE).index('recordingId').openKeyCursor(IDBKeyRange.only(recordingId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      transaction.objectStore(CHUNK_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
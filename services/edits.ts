@@ -0,0 +1,70 @@
+import { EditList, TimeRange } from '../types';
+
+// Ranges shorter than this are dropped rather than rendered as a flash frame.
+export const MIN_SEGMENT_SECONDS = 0.1;
+
+export const emptyEdit = (durationSeconds: number): EditList => ({ in: 0, out: durationSeconds, cuts: [] });
+
+const clamp = (t: number, max: number) => Math.max(0, Math.min(max, t));
+
+// Clamps everything to the recording and merges overlapping cuts, so the
+// stored edit is always in a canonical form.
+export function normalizeEdit(edit: EditList, durationSeconds: number): EditList {
+  const start = clamp(Math.min(edit.in, edit.out), durationSeconds);
+  const end = clamp(Math.max(edit.in, edit.out), durationSeconds);
+  const cuts = edit.cuts
+    .map(c => ({ start: Math.max(start, Math.min(c.start, c.end)), end: Math.min(end, Math.max(c.start, c.end)) }))
+    .filter(c => c.end - c.start > 0)
+    .sort((a, b) => a.start - b.start)
+    .reduce<TimeRange[]>((merged, c) => {
+      const last = merged[merged.length - 1];
+      if (last && c.start <= last.end) last.end = Math.max(last.end, c.end);
+      else merged.push({ ...c });
+      return merged;
+    }, []);
+  return { in: start, out: end, cuts };
+}
+
+// The parts of the source that survive the edit, in order.
+export function keptSegments(edit: EditList, durationSeconds: number): TimeRange[] {
+  const { in: start, out: end, cuts } = normalizeEdit(edit, durationSeconds);
+  const segments: TimeRange[] = [];
+  let cursor = start;
+  for (const cut of cuts) {
+    if (cut.start > cursor) segments.push({ start: cursor, end: cut.start });
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (end > cursor) segments.push({ start: cursor, end });
+  return segments.filter(s => s.end - s.start >= MIN_SEGMENT_SECONDS);
+}
+
+export const editedDuration = (segments: TimeRange[]) => segments.reduce((sum, s) => sum + s.end - s.start, 0);
+
+// True when the edit keeps the whole recording, i.e. exports need no rendering.
+export function isIdentityEdit(edit: EditList | undefined, durationSeconds: number): boolean {
+  if (!edit) return true;
+  const segments = keptSegments(edit, durationSeconds);
+  return segments.length === 1 && segments[0].start < MIN_SEGMENT_SECONDS && durationSeconds - segments[0].end < MIN_SEGMENT_SECONDS;
+}
+
+// Where playback of the edited cut should be at source time t: t itself if it
+// is kept, otherwise the start of the next kept segment (null past the end).
+export function nextKeptTime(segments: TimeRange[], t: number): number | null {
+  for (const s of segments) {
+    if (t < s.start) return s.start;
+    if (t < s.end) return t;
+  }
+  return null;
+}
+
+export function editsEqual(a: EditList | undefined, b: EditList | undefined, durationSeconds: number): boolean {
+  const canonical = (e: EditList | undefined) => JSON.stringify(normalizeEdit(e || emptyEdit(durationSeconds), durationSeconds));
+  return canonical(a) === canonical(b);
+}
+
+export function isValidEdit(raw: unknown): raw is EditList {
+  const isTime = (n: unknown) => typeof n === 'number' && isFinite(n) && n >= 0;
+  const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+  return isObject(raw) && isTime(raw.in) && isTime(raw.out) && Array.isArray(raw.cuts) &&
+    raw.cuts.every((c: unknown) => isObject(c) && isTime(c.start) && isTime(c.end));
+}
@@ -1,25 +1,247 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { AudioExportFormat, FFmpegTaskOptions, TimeRange } from '../types';
 
-// This is a placeholder wrapper. In a real environment, we'd load @ffmpeg/ffmpeg
-// Since we are in a browser environment, we'll simulate the capability or 
-// provide the UI hook for the user. We assume the library is loaded via script or provided.
-
-export async function convertToMp4(input: Blob): Promise<Blob> {
-    console.log("Conversion to MP4 triggered for blob of size:", input.size);
-    // Ideally:
-    // const { createFFmpeg, fetchFile } = FFmpeg;
-    // const ffmpeg = createFFmpeg({ log: true });
-    // await ffmpeg.load();
-    // ffmpeg.FS('writeFile', 'input.webm', await fetchFile(input));
-    // await ffmpeg.run('-i', 'input.webm', 'output.mp4');
-    // const data = ffmpeg.FS('readFile', 'output.mp4');
-    // return new Blob([data.buffer], { type: 'video/mp4' });
-    
-    // For now, return original as fall back since ffmpeg.wasm requires specific headers (COOP/COEP)
-    return input; 
-}
-
-export async function extractMp3(input: Blob): Promise<Blob> {
-    console.log("Audio extraction triggered");
-    // Similar logic for mp3 extraction
-    return new Blob([], { type: 'audio/mp3' });
+// The core is fetched on first use only, so the ~30MB wasm never slows down app start.
+const CORE_VERSION = '0.12.10';
+const CORE_URL = `https://unpkg.com/@ffmpeg/core@${CORE_VERSION}/dist/esm`;
+const CORE_MT_URL = `https://unpkg.com/@ffmpeg/core-mt@${CORE_VERSION}/dist/esm`;
+
+const MP4_CODEC_ARGS = [
+  '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '22', '-pix_fmt', 'yuv420p',
+  '-c:a', 'aac', '-b:a', '192k',
+  '-movflags', '+faststart'
+];
+// VP9 at the fastest settings; wasm has no hardware encoder to fall back on.
+const WEBM_CODEC_ARGS = [
+  '-c:v', 'libvpx-vp9', '-deadline', 'realtime', '-cpu-used', '8', '-row-mt', '1', '-crf', '32', '-b:v', '0',
+  '-c:a', 'libopus', '-b:a', '128k'
+];
+// How close a segment start must be to a keyframe for a stream copy to be exact.
+const KEYFRAME_TOLERANCE_SECONDS = 0.05;
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+let taskCounter = 0;
+
+export class FFmpegCancelledError extends Error {
+  constructor() {
+    super('Processing cancelled');
+    this.name = 'FFmpegCancelledError';
+  }
+}
+
+// The multi-threaded core needs SharedArrayBuffer, which browsers only expose
+// when the page is cross-origin isolated (COOP/COEP headers, see vite.config.ts).
+export function getFFmpegSupport(): { multiThreaded: boolean; message?: string } {
+  if (typeof window !== 'undefined' && window.crossOriginIsolated) {
+    return { multiThreaded: true };
+  }
+  return {
+    multiThreaded: false,
+    message: 'This page is not cross-origin isolated, so FFmpeg runs single-threaded and conversions will be slower. Serve the app with the COOP/COEP headers from vite.config.ts to enable multi-threading.'
+  };
+}
+
+async function loadFFmpeg(): Promise<FFmpeg> {
+  const [{ FFmpeg }, { toBlobURL }] = await Promise.all([
+    import('@ffmpeg/ffmpeg'),
+    import('@ffmpeg/util')
+  ]);
+  const ffmpeg = new FFmpeg();
+  const { multiThreaded } = getFFmpegSupport();
+  const base = multiThreaded ? CORE_MT_URL : CORE_URL;
+  await ffmpeg.load({
+    coreURL: await toBlobURL(`${base}/ffmpeg-core.js`, 'text/javascript'),
+    wasmURL: await toBlobURL(`${base}/ffmpeg-core.wasm`, 'application/wasm'),
+    ...(multiThreaded ? { workerURL: await toBlobURL(`${base}/ffmpeg-core.worker.js`, 'text/javascript') } : {})
+  });
+  return ffmpeg;
+}
+
+function getFFmpeg(): Promise<FFmpeg> {
+  if (!ffmpegPromise) {
+    ffmpegPromise = loadFFmpeg().catch(err => {
+      ffmpegPromise = null;
+      throw err;
+    });
+  }
+  return ffmpegPromise;
+}
+
+// Tearing down the worker is the only way to interrupt a running exec();
+// the next task loads a fresh instance.
+function resetFFmpeg(ffmpeg: FFmpeg) {
+  ffmpeg.terminate();
+  ffmpegPromise = null;
+}
+
+const inputExtension = (blob: Blob) => blob.type.includes('mp4') ? 'mp4' : 'webm';
+
+export async function runFFmpeg(
+  inputs: { name: string; data: Blob | Uint8Array | string }[],
+  args: string[],
+  output: { name: string; type: string },
+  options: FFmpegTaskOptions = {}
+): Promise<Blob> {
+  const { onProgress, signal } = options;
+
+  const task = queue.then(async () => {
+    if (signal?.aborted) throw new FFmpegCancelledError();
+    onProgress?.({ stage: 'loading', ratio: 0, timeSeconds: 0 });
+    const ffmpeg = await getFFmpeg();
+    if (signal?.aborted) throw new FFmpegCancelledError();
+
+    const progressHandler = ({ progress, time }: { progress: number; time: number }) => {
+      onProgress?.({ stage: 'processing', ratio: Math.max(0, Math.min(1, progress)), timeSeconds: time / 1e6 });
+    };
+    let cancelled = false;
+    const abortHandler = () => {
+      cancelled = true;
+      resetFFmpeg(ffmpeg);
+    };
+
+    ffmpeg.on('progress', progressHandler);
+    signal?.addEventListener('abort', abortHandler);
+    try {
+      for (const input of inputs) {
+        const data = input.data instanceof Blob ? new Uint8Array(await input.data.arrayBuffer()) : input.data;
+        await ffmpeg.writeFile(input.name, data);
+      }
+      onProgress?.({ stage: 'processing', ratio: 0, timeSeconds: 0 });
+      const code = await ffmpeg.exec(args);
+      if (code !== 0) throw new Error(`FFmpeg exited with code ${code}`);
+      const data = await ffmpeg.readFile(output.name);
+      onProgress?.({ stage: 'done', ratio: 1, timeSeconds: 0 });
+      return new Blob([data as Uint8Array<ArrayBuffer>], { type: output.type });
+    } catch (err) {
+      if (cancelled) throw new FFmpegCancelledError();
+      throw err;
+    } finally {
+      signal?.removeEventListener('abort', abortHandler);
+      if (!cancelled) {
+        ffmpeg.off('progress', progressHandler);
+        for (const name of [...inputs.map(i => i.name), output.name]) {
+          await ffmpeg.deleteFile(name).catch(() => {});
+        }
+      }
+    }
+  });
+
+  queue = task.catch(() => {});
+  return task;
+}
+
+export async function convertToMp4(input: Blob, options: FFmpegTaskOptions = {}): Promise<Blob> {
+  const id = ++taskCounter;
+  const inName = `in_${id}.${inputExtension(input)}`;
+  const outName = `out_${id}.mp4`;
+  return runFFmpeg(
+    [{ name: inName, data: input }],
+    ['-i', inName, ...MP4_CODEC_ARGS, outName],
+    { name: outName, type: 'video/mp4' },
+    options
+  );
+}
+
+// Re-encodes only when the blob is not already in the target container; takes
+// recorded as H.264/MP4 go through the full-length edit path for a WebM copy.
+export async function changeContainer(input: Blob, durationSeconds: number, target: 'webm' | 'mp4', options: FFmpegTaskOptions = {}): Promise<Blob> {
+  if (inputExtension(input) === target) return input;
+  if (target === 'mp4') return convertToMp4(input, options);
+  return renderEdit(input, [{ start: 0, end: durationSeconds }], 'webm', options);
+}
+
+// Builds a trim + concat graph that keeps only the given source ranges.
+function trimFilter(segments: TimeRange[], streams: { video: boolean; audio: boolean }): { filter: string; maps: string[] } {
+  const parts: string[] = [];
+  const labels: string[] = [];
+  segments.forEach((s, i) => {
+    const range = `start=${s.start.toFixed(3)}:end=${s.end.toFixed(3)}`;
+    if (streams.video) {
+      parts.push(`[0:v]trim=${range},setpts=PTS-STARTPTS[v${i}]`);
+      labels.push(`[v${i}]`);
+    }
+    if (streams.audio) {
+      parts.push(`[0:a]atrim=${range},asetpts=PTS-STARTPTS[a${i}]`);
+      labels.push(`[a${i}]`);
+    }
+  });
+  const outputs = [streams.video && '[v]', streams.audio && '[a]'].filter(Boolean) as string[];
+  parts.push(`${labels.join('')}concat=n=${segments.length}:v=${streams.video ? 1 : 0}:a=${streams.audio ? 1 : 0}${outputs.join('')}`);
+  return { filter: parts.join(';'), maps: outputs.flatMap(o => ['-map', o]) };
+}
+
+export function canStreamCopy(segments: TimeRange[], keyframes: number[]): boolean {
+  return segments.every(s =>
+    s.start < KEYFRAME_TOLERANCE_SECONDS || keyframes.some(k => Math.abs(k - s.start) <= KEYFRAME_TOLERANCE_SECONDS)
+  );
+}
+
+// Renders the kept segments of a recording. With streamCopy the packets are
+// copied as-is via the concat demuxer (WebM in, WebM out, segment starts on
+// keyframes); otherwise the edit is re-encoded in a single pass.
+export async function renderEdit(
+  input: Blob,
+  segments: TimeRange[],
+  target: 'webm' | 'mp4',
+  options: FFmpegTaskOptions & { hasAudio?: boolean; streamCopy?: boolean } = {}
+): Promise<Blob> {
+  if (segments.length === 0) throw new Error('The edit removes the whole recording.');
+  const id = ++taskCounter;
+  const ext = inputExtension(input);
+  const inName = `in_${id}.${ext}`;
+  const outName = `out_${id}.${target}`;
+  const type = target === 'mp4' ? 'video/mp4' : 'video/webm';
+
+  if (options.streamCopy && target === 'webm' && ext === 'webm') {
+    const listName = `list_${id}.txt`;
+    const list = ['ffconcat version 1.0', ...segments.flatMap(s => [
+      `file ${inName}`,
+      `inpoint ${s.start.toFixed(3)}`,
+      `outpoint ${s.end.toFixed(3)}`
+    ])].join('\n');
+    return runFFmpeg(
+      [{ name: inName, data: input }, { name: listName, data: list }],
+      ['-f', 'concat', '-safe', '0', '-i', listName, '-c', 'copy', outName],
+      { name: outName, type },
+      options
+    );
+  }
+
+  const { filter, maps } = trimFilter(segments, { video: true, audio: options.hasAudio !== false });
+  return runFFmpeg(
+    [{ name: inName, data: input }],
+    ['-i', inName, '-filter_complex', filter, ...maps, ...(target === 'mp4' ? MP4_CODEC_ARGS : WEBM_CODEC_ARGS), outName],
+    { name: outName, type },
+    options
+  );
+}
+
+export async function extractAudio(
+  input: Blob,
+  format: AudioExportFormat,
+  options: FFmpegTaskOptions = {},
+  segments?: TimeRange[]
+): Promise<Blob> {
+  const id = ++taskCounter;
+  const inName = `in_${id}.${inputExtension(input)}`;
+  const outName = `out_${id}.${format}`;
+  const codecArgs = format === 'mp3'
+    ? ['-c:a', 'libmp3lame', '-b:a', '192k']
+    : ['-c:a', 'pcm_s16le', '-ar', '48000'];
+  let trimArgs = ['-vn'];
+  if (segments) {
+    const { filter, maps } = trimFilter(segments, { video: false, audio: true });
+    trimArgs = ['-filter_complex', filter, ...maps];
+  }
+  return runFFmpeg(
+    [{ name: inName, data: input }],
+    ['-i', inName, ...trimArgs, ...codecArgs, outName],
+    { name: outName, type: format === 'mp3' ? 'audio/mpeg' : 'audio/wav' },
+    options
+  );
+}
+
+export async function extractMp3(input: Blob, options: FFmpegTaskOptions = {}): Promise<Blob> {
+  return extractAudio(input, 'mp3', options);
 }
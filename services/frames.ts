@@ -0,0 +1,112 @@
+import { RecordingSession, SessionThumbnails } from '../types';
+import { acquireObjectUrl, releaseObjectUrl } from './objectUrls';
+
+const THUMBNAIL_WIDTH = 320;
+const SPRITE_FRAMES = 10;
+const SPRITE_FRAME_WIDTH = 160;
+
+interface FrameGrabber {
+  video: HTMLVideoElement;
+  seek: (t: number) => Promise<void>;
+}
+
+// Opens a detached <video> on the blob for seeking and drawing frames, and
+// always releases its URL afterwards.
+async function withFrameGrabber<T>(blob: Blob, use: (grabber: FrameGrabber) => Promise<T>): Promise<T> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = acquireObjectUrl(blob);
+
+  const waitFor = (event: string, timeoutMs = 5000) => new Promise<void>((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      video.removeEventListener(event, done);
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, timeoutMs);
+    const done = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    video.addEventListener(event, done, { once: true });
+  });
+
+  try {
+    await waitFor('loadeddata');
+    return await use({
+      video,
+      seek: (t) => {
+        const seeked = waitFor('seeked');
+        video.currentTime = t;
+        return seeked;
+      }
+    });
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    releaseObjectUrl(blob);
+  }
+}
+
+function makeCanvas(video: HTMLVideoElement, width: number, columns = 1) {
+  const height = Math.round(width * (video.videoHeight / video.videoWidth || 9 / 16));
+  const canvas = document.createElement('canvas');
+  canvas.width = width * columns;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  return { canvas, ctx, height };
+}
+
+const toJpeg = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) =>
+  canvas.toBlob(b => b ? resolve(b) : reject(new Error('Could not encode thumbnail')), 'image/jpeg', 0.7)
+);
+
+// Grabs still frames from a recording. Frames come back as JPEG data URLs,
+// so callers have no object URLs to revoke.
+export async function captureFrames(blob: Blob, times: number[], width = 160): Promise<string[]> {
+  return withFrameGrabber(blob, async ({ video, seek }) => {
+    const { canvas, ctx, height } = makeCanvas(video, width);
+    const frames: string[] = [];
+    for (const t of times) {
+      await seek(t);
+      ctx.drawImage(video, 0, 0, width, height);
+      frames.push(canvas.toDataURL('image/jpeg', 0.7));
+    }
+    return frames;
+  });
+}
+
+// A poster plus a strip of evenly spaced frames for hover scrubbing in the Library.
+export async function captureThumbnails(blob: Blob, durationSeconds: number): Promise<SessionThumbnails> {
+  return withFrameGrabber(blob, async ({ video, seek }) => {
+    const poster = makeCanvas(video, THUMBNAIL_WIDTH);
+    await seek(Math.min(1, durationSeconds / 2));
+    poster.ctx.drawImage(video, 0, 0, poster.canvas.width, poster.height);
+
+    const sprite = makeCanvas(video, SPRITE_FRAME_WIDTH, SPRITE_FRAMES);
+    for (const [i, t] of evenlySpacedTimes(durationSeconds, SPRITE_FRAMES).entries()) {
+      await seek(t);
+      sprite.ctx.drawImage(video, i * SPRITE_FRAME_WIDTH, 0, SPRITE_FRAME_WIDTH, sprite.height);
+    }
+
+    return {
+      poster: await toJpeg(poster.canvas),
+      sprite: await toJpeg(sprite.canvas),
+      frames: SPRITE_FRAMES,
+      frameWidth: SPRITE_FRAME_WIDTH,
+      frameHeight: sprite.height
+    };
+  });
+}
+
+// Thumbnails are a nicety: a take the browser cannot decode is still saved without them.
+export async function withThumbnails(session: RecordingSession): Promise<RecordingSession> {
+  try {
+    return { ...session, thumbnails: await captureThumbnails(session.videoBlob, session.durationSeconds) };
+  } catch (e) {
+    return session;
+  }
+}
+
+export const evenlySpacedTimes = (durationSeconds: number, count: number) =>
+  Array.from({ length: count }, (_, i) => (durationSeconds * (i + 0.5)) / count);
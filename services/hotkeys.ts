@@ -0,0 +1,138 @@
+import { HotkeyAction, HotkeyBindings } from '../types';
+
+const HOTKEYS_KEY = 'decdecrec.hotkeys';
+
+export interface HotkeyActionInfo {
+  id: HotkeyAction;
+  label: string;
+  group: 'Recording' | 'Scenes' | 'Sources' | 'Camera' | 'Annotations' | 'Webcam Bubble';
+}
+
+const sceneActions: HotkeyActionInfo[] = [1, 2, 3, 4, 5, 6, 7, 8, 9].map(n => ({
+  id: `scene${n}` as HotkeyAction,
+  label: `Scene ${n}`,
+  group: 'Scenes'
+}));
+
+export const HOTKEY_ACTIONS: HotkeyActionInfo[] = [
+  { id: 'toggleRecording', label: 'Start / Stop recording', group: 'Recording' },
+  { id: 'togglePause', label: 'Pause / Resume', group: 'Recording' },
+  { id: 'marker', label: 'Drop a marker', group: 'Recording' },
+  { id: 'nextScene', label: 'Next scene', group: 'Scenes' },
+  ...sceneActions,
+  { id: 'toggleWebcam', label: 'Show / Hide webcam', group: 'Sources' },
+  { id: 'toggleMicMute', label: 'Mute / Unmute mic', group: 'Sources' },
+  { id: 'toggleZoom', label: 'Zoom in at pointer / out', group: 'Camera' },
+  { id: 'toggleAnnotate', label: 'Annotation mode on / off', group: 'Annotations' },
+  { id: 'undoAnnotation', label: 'Undo last annotation', group: 'Annotations' },
+  { id: 'nudgeUp', label: 'Nudge up', group: 'Webcam Bubble' },
+  { id: 'nudgeDown', label: 'Nudge down', group: 'Webcam Bubble' },
+  { id: 'nudgeLeft', label: 'Nudge left', group: 'Webcam Bubble' },
+  { id: 'nudgeRight', label: 'Nudge right', group: 'Webcam Bubble' }
+];
+
+// Alt-based defaults stay clear of browser shortcuts on every platform.
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  toggleRecording: 'Alt+KeyR',
+  togglePause: 'Alt+KeyP',
+  marker: 'Alt+KeyM',
+  nextScene: 'Alt+KeyS',
+  scene1: 'Digit1',
+  scene2: 'Digit2',
+  scene3: 'Digit3',
+  scene4: 'Digit4',
+  scene5: 'Digit5',
+  scene6: 'Digit6',
+  scene7: 'Digit7',
+  scene8: 'Digit8',
+  scene9: 'Digit9',
+  toggleWebcam: 'Alt+KeyC',
+  toggleMicMute: 'Alt+KeyX',
+  toggleZoom: 'Alt+KeyZ',
+  toggleAnnotate: 'Alt+KeyA',
+  undoAnnotation: 'Alt+KeyU',
+  nudgeUp: 'Alt+ArrowUp',
+  nudgeDown: 'Alt+ArrowDown',
+  nudgeLeft: 'Alt+ArrowLeft',
+  nudgeRight: 'Alt+ArrowRight'
+};
+
+// Combos the browser or OS acts on before the page can stop it.
+const RESERVED_COMBOS = new Set([
+  'Ctrl+KeyW', 'Ctrl+KeyT', 'Ctrl+KeyN', 'Ctrl+KeyR', 'Ctrl+KeyL', 'Ctrl+KeyQ', 'Ctrl+Tab',
+  'Meta+KeyW', 'Meta+KeyT', 'Meta+KeyN', 'Meta+KeyR', 'Meta+KeyL', 'Meta+KeyQ', 'Meta+Tab',
+  'Alt+Tab', 'Alt+F4', 'F5', 'F11', 'F12', 'Escape'
+]);
+
+const MODIFIER_CODES = new Set([
+  'ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'
+]);
+
+export function loadHotkeys(): HotkeyBindings {
+  try {
+    const raw = localStorage.getItem(HOTKEYS_KEY);
+    return raw ? { ...DEFAULT_HOTKEYS, ...JSON.parse(raw) } : { ...DEFAULT_HOTKEYS };
+  } catch (e) {
+    return { ...DEFAULT_HOTKEYS };
+  }
+}
+
+export function saveHotkeys(bindings: HotkeyBindings) {
+  localStorage.setItem(HOTKEYS_KEY, JSON.stringify(bindings));
+}
+
+// Returns null for a bare modifier press, which can't be a binding on its own.
+export function comboFromEvent(e: KeyboardEvent): string | null {
+  if (MODIFIER_CODES.has(e.code) || !e.code) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  parts.push(e.code);
+  return parts.join('+');
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'Space',
+  Meta: '⌘'
+};
+
+export function formatCombo(combo: string | null): string {
+  if (!combo) return '—';
+  return combo
+    .split('+')
+    .map(part => KEY_LABELS[part] || part.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num '))
+    .join(' + ');
+}
+
+export const isReservedCombo = (combo: string) => RESERVED_COMBOS.has(combo);
+
+// The other action already using this combo, if any.
+export function findConflict(bindings: HotkeyBindings, action: HotkeyAction, combo: string): HotkeyAction | null {
+  const hit = (Object.keys(bindings) as HotkeyAction[]).find(a => a !== action && bindings[a] === combo);
+  return hit || null;
+}
+
+export function findAllConflicts(bindings: HotkeyBindings): HotkeyAction[] {
+  const seen = new Map<string, HotkeyAction[]>();
+  (Object.keys(bindings) as HotkeyAction[]).forEach(a => {
+    const combo = bindings[a];
+    if (combo) seen.set(combo, [...(seen.get(combo) || []), a]);
+  });
+  return [...seen.values()].filter(actions => actions.length > 1).flat();
+}
+
+export function actionForCombo(bindings: HotkeyBindings, combo: string): HotkeyAction | null {
+  const hit = (Object.keys(bindings) as HotkeyAction[]).find(a => bindings[a] === combo);
+  return hit || null;
+}
+
+export const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName) || el.isContentEditable);
+};
@@ -0,0 +1,109 @@
+import { Job, JobKind } from '../types';
+
+export type JobRunner = (signal: AbortSignal, report: (progress: number, message?: string) => void) => Promise<void>;
+
+type Listener = (jobs: Job[]) => void;
+
+// Runs Library batch work in the background, one job at a time (FFmpeg is
+// single-instance anyway). Runners are kept after they finish so a failed
+// or cancelled job can be retried as-is.
+export class JobQueue {
+  private jobs: Job[] = [];
+  private runners = new Map<string, JobRunner>();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<Listener>();
+  private active = false;
+
+  add(kind: JobKind, label: string, run: JobRunner): Job {
+    const job: Job = { id: crypto.randomUUID(), kind, label, status: 'queued', progress: 0 };
+    this.jobs = [...this.jobs, job];
+    this.runners.set(job.id, run);
+    this.emit();
+    this.pump();
+    return job;
+  }
+
+  cancel(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+    this.controllers.get(id)?.abort();
+    this.update(id, { status: 'cancelled', message: undefined });
+  }
+
+  cancelAll() {
+    this.jobs.forEach(j => this.cancel(j.id));
+  }
+
+  retry(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+    // Back of the queue, like a fresh job.
+    this.jobs = [...this.jobs.filter(j => j.id !== id), { ...job, status: 'queued', progress: 0, message: undefined }];
+    this.emit();
+    this.pump();
+  }
+
+  clearFinished() {
+    const finished = this.jobs.filter(j => j.status === 'done' || j.status === 'cancelled');
+    finished.forEach(j => this.runners.delete(j.id));
+    this.jobs = this.jobs.filter(j => !finished.includes(j));
+    this.emit();
+  }
+
+  getJobs(): Job[] {
+    return this.jobs;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.jobs);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l(this.jobs));
+  }
+
+  private update(id: string, patch: Partial<Job>) {
+    this.jobs = this.jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+    this.emit();
+  }
+
+  private async pump() {
+    if (this.active) return;
+    this.active = true;
+    try {
+      let next: Job | undefined;
+      while ((next = this.jobs.find(j => j.status === 'queued'))) {
+        await this.runJob(next.id);
+      }
+    } finally {
+      this.active = false;
+    }
+  }
+
+  private async runJob(id: string) {
+    const run = this.runners.get(id)!;
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.update(id, { status: 'running', progress: 0 });
+
+    const report = (progress: number, message?: string) => {
+      if (controller.signal.aborted) return;
+      this.update(id, { progress: Math.max(0, Math.min(1, progress)), message });
+    };
+    // A runner that cannot stop mid-request must not hold up the queue once cancelled.
+    const aborted = new Promise<void>(resolve => controller.signal.addEventListener('abort', () => resolve(), { once: true }));
+
+    try {
+      const running = run(controller.signal, report);
+      running.catch(() => {}); // settles after a cancel; nobody is listening then
+      await Promise.race([running, aborted]);
+      if (!controller.signal.aborted) this.update(id, { status: 'done', progress: 1, message: undefined });
+    } catch (err: any) {
+      if (!controller.signal.aborted) this.update(id, { status: 'failed', message: err?.message || String(err) });
+    } finally {
+      this.controllers.delete(id);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { BuiltInLayoutId, LayoutDefinition, LayoutRegion, LayoutStyle } from '../types';
+
+const CUSTOM_LAYOUTS_KEY = 'decdecrec.customLayouts';
+
+export const DEFAULT_SPLIT_RATIO = 0.5;
+
+const full = { x: 0, y: 0, w: 1, h: 1 };
+const screenFull: LayoutRegion = { source: 'screen', rect: full, shape: 'rect', fit: 'contain' };
+
+// Vertical 9:16 with the screen on top and the webcam below.
+export function buildSplitLayout(ratio: number, id: LayoutStyle = 'SPLIT_VERTICAL', name = '9:16 Split'): LayoutDefinition {
+  const split = Math.max(0.1, Math.min(0.9, ratio));
+  return {
+    id,
+    name,
+    aspect: { w: 9, h: 16 },
+    background: 'black',
+    regions: [
+      { source: 'screen', rect: { x: 0, y: 0, w: 1, h: split }, shape: 'rect', fit: 'cover' },
+      { source: 'webcam', rect: { x: 0, y: split, w: 1, h: 1 - split }, shape: 'rect', fit: 'cover', background: '#111' }
+    ],
+    dividers: [{ orientation: 'horizontal', at: split, width: 6, color: 'white' }]
+  };
+}
+
+export const BUILT_IN_LAYOUTS: Record<BuiltInLayoutId, LayoutDefinition> = {
+  CIRCLE: {
+    id: 'CIRCLE',
+    name: 'Overlay',
+    aspect: { w: 16, h: 9 },
+    background: 'black',
+    regions: [
+      { source: 'screen', rect: full, shape: 'rect', fit: 'stretch' },
+      { source: 'webcam', rect: full, shape: 'circle', fit: 'cover', border: { width: 4, color: 'white' }, movable: true }
+    ]
+  },
+  SHORTS: { ...buildSplitLayout(0.5, 'SHORTS', 'Shorts') },
+  PIP_ROUNDED: {
+    id: 'PIP_ROUNDED',
+    name: 'Rounded PiP',
+    aspect: { w: 16, h: 9 },
+    background: 'black',
+    regions: [
+      screenFull,
+      { source: 'webcam', rect: full, shape: 'rounded', cornerRadius: 0.15, fit: 'cover', border: { width: 4, color: 'white' }, movable: true }
+    ]
+  },
+  SIDE_BY_SIDE: {
+    id: 'SIDE_BY_SIDE',
+    name: 'Side by Side',
+    aspect: { w: 16, h: 9 },
+    background: 'black',
+    regions: [
+      { source: 'screen', rect: { x: 0, y: 0, w: 0.5, h: 1 }, shape: 'rect', fit: 'contain' },
+      { source: 'webcam', rect: { x: 0.5, y: 0, w: 0.5, h: 1 }, shape: 'rect', fit: 'cover', background: '#111' }
+    ],
+    dividers: [{ orientation: 'vertical', at: 0.5, width: 4, color: 'white' }]
+  },
+  WEBCAM_ONLY: {
+    id: 'WEBCAM_ONLY',
+    name: 'Talking Head',
+    aspect: { w: 16, h: 9 },
+    background: 'black',
+    regions: [{ source: 'webcam', rect: full, shape: 'rect', fit: 'cover', background: '#111' }]
+  },
+  SCREEN_ONLY: {
+    id: 'SCREEN_ONLY',
+    name: 'Screen Only',
+    aspect: { w: 16, h: 9 },
+    background: 'black',
+    regions: [screenFull]
+  },
+  SQUARE: {
+    id: 'SQUARE',
+    name: 'Square 1:1',
+    aspect: { w: 1, h: 1 },
+    background: 'black',
+    regions: [
+      { source: 'screen', rect: full, shape: 'rect', fit: 'cover' },
+      { source: 'webcam', rect: full, shape: 'circle', fit: 'cover', border: { width: 4, color: 'white' }, movable: true }
+    ]
+  },
+  SPLIT_VERTICAL: buildSplitLayout(DEFAULT_SPLIT_RATIO)
+};
+
+export function loadCustomLayouts(): LayoutDefinition[] {
+  try {
+    const raw = localStorage.getItem(CUSTOM_LAYOUTS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isValidLayout) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+function writeCustomLayouts(layouts: LayoutDefinition[]) {
+  localStorage.setItem(CUSTOM_LAYOUTS_KEY, JSON.stringify(layouts));
+}
+
+export function getLayouts(): LayoutDefinition[] {
+  return [...Object.values(BUILT_IN_LAYOUTS), ...loadCustomLayouts()];
+}
+
+export function getLayout(id: LayoutStyle): LayoutDefinition {
+  return (BUILT_IN_LAYOUTS as Record<string, LayoutDefinition>)[id]
+    || loadCustomLayouts().find(l => l.id === id)
+    || BUILT_IN_LAYOUTS.CIRCLE;
+}
+
+export function saveCustomLayout(layout: Omit<LayoutDefinition, 'id' | 'custom'>): LayoutDefinition {
+  const saved: LayoutDefinition = { ...layout, id: `CUSTOM_${Date.now().toString(36)}`, custom: true };
+  writeCustomLayouts([...loadCustomLayouts(), saved]);
+  return saved;
+}
+
+export function deleteCustomLayout(id: LayoutStyle) {
+  writeCustomLayouts(loadCustomLayouts().filter(l => l.id !== id));
+}
+
+const isFraction = (n: unknown) => typeof n === 'number' && n >= 0 && n <= 1;
+
+export function isValidLayout(raw: any): raw is LayoutDefinition {
+  if (!raw || typeof raw.id !== 'string' || typeof raw.name !== 'string') return false;
+  if (!raw.aspect || !(raw.aspect.w > 0) || !(raw.aspect.h > 0)) return false;
+  if (!Array.isArray(raw.regions)) return false;
+  return raw.regions.every((r: any) =>
+    (r.source === 'screen' || r.source === 'webcam') &&
+    ['rect', 'rounded', 'circle'].includes(r.shape) &&
+    ['cover', 'contain', 'stretch'].includes(r.fit) &&
+    r.rect && isFraction(r.rect.x) && isFraction(r.rect.y) && isFraction(r.rect.w) && isFraction(r.rect.h)
+  );
+}
+
+export const hasMovableRegion = (layout: LayoutDefinition) => layout.regions.some(r => r.movable);
+
+export const usesWebcam = (layout: LayoutDefinition) => layout.regions.some(r => r.source === 'webcam');
+
+// The short side follows the chosen resolution; the long side follows the layout's aspect.
+export function canvasSizeFor(layout: LayoutDefinition, shortSide: number): { width: number; height: number } {
+  const { w, h } = layout.aspect;
+  const even = (n: number) => Math.round(n / 2) * 2;
+  return w >= h
+    ? { width: even(shortSide * w / h), height: shortSide }
+    : { width: shortSide, height: even(shortSide * h / w) };
+}
@@ -0,0 +1,88 @@
+import { LibrarySort, LibraryView, SessionFilter, SessionPageQuery, SessionSummary } from '../types';
+
+const VIEW_KEY = 'decdecrec.libraryView';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EMPTY_FILTER: SessionFilter = {
+  text: '',
+  layoutStyle: null,
+  resolution: null,
+  fps: null,
+  fromDate: null,
+  toDate: null,
+  minMinutes: null,
+  maxMinutes: null,
+  tags: []
+};
+
+export const DEFAULT_LIBRARY_VIEW: LibraryView = { sort: 'newest', filter: EMPTY_FILTER };
+
+export const LIBRARY_SORTS: Record<LibrarySort, { label: string } & Pick<SessionPageQuery, 'orderBy' | 'descending'>> = {
+  newest: { label: 'Newest', orderBy: 'createdAtISO', descending: true },
+  oldest: { label: 'Oldest', orderBy: 'createdAtISO', descending: false },
+  longest: { label: 'Longest', orderBy: 'durationSeconds', descending: true },
+  shortest: { label: 'Shortest', orderBy: 'durationSeconds', descending: false },
+  largest: { label: 'Largest', orderBy: 'videoBytes', descending: true },
+  smallest: { label: 'Smallest', orderBy: 'videoBytes', descending: false }
+};
+
+export function loadLibraryView(): LibraryView {
+  try {
+    const raw = localStorage.getItem(VIEW_KEY);
+    if (!raw) return DEFAULT_LIBRARY_VIEW;
+    const parsed = JSON.parse(raw);
+    return {
+      sort: parsed.sort in LIBRARY_SORTS ? parsed.sort : DEFAULT_LIBRARY_VIEW.sort,
+      filter: { ...EMPTY_FILTER, ...parsed.filter }
+    };
+  } catch (e) {
+    return DEFAULT_LIBRARY_VIEW;
+  }
+}
+
+export function saveLibraryView(view: LibraryView) {
+  localStorage.setItem(VIEW_KEY, JSON.stringify(view));
+}
+
+export const sessionTitle = (s: Pick<SessionSummary, 'id' | 'title'>) => s.title?.trim() || s.id;
+
+// "Demo, Product Launch, demo" -> ['demo', 'product launch']
+export function parseTags(input: string): string[] {
+  const tags = input.split(',').map(t => t.trim().replace(/\s+/g, ' ').toLowerCase()).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export const isFilterActive = (filter: SessionFilter) =>
+  JSON.stringify({ ...filter, text: filter.text.trim() }) !== JSON.stringify(EMPTY_FILTER);
+
+// Date inputs give local calendar days; compare against the local day bounds.
+const localDayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export function matchesFilter(s: SessionSummary, filter: SessionFilter): boolean {
+  if (filter.layoutStyle && s.layoutStyle !== filter.layoutStyle) return false;
+  if (filter.resolution && s.quality?.resolution !== filter.resolution) return false;
+  if (filter.fps && s.quality?.fps !== filter.fps) return false;
+
+  const created = Date.parse(s.createdAtISO);
+  if (filter.fromDate && created < localDayStart(filter.fromDate)) return false;
+  if (filter.toDate && created >= localDayStart(filter.toDate) + DAY_MS) return false;
+  if (filter.minMinutes !== null && s.durationSeconds < filter.minMinutes * 60) return false;
+  if (filter.maxMinutes !== null && s.durationSeconds > filter.maxMinutes * 60) return false;
+
+  const tags = s.tags || [];
+  if (!filter.tags.every(t => tags.includes(t))) return false;
+
+  const words = filter.text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = [s.title, s.id, ...tags, s.transcript].filter(Boolean).join('\n').toLowerCase();
+  return words.every(w => haystack.includes(w));
+}
+
+export function pageQueryFor(view: LibraryView): SessionPageQuery {
+  const { orderBy, descending } = LIBRARY_SORTS[view.sort];
+  return {
+    orderBy,
+    descending,
+    ...(isFilterActive(view.filter) ? { where: (s: SessionSummary) => matchesFilter(s, view.filter) } : {})
+  };
+}
@@ -0,0 +1,110 @@
+import {
+  LocalServerHealth,
+  LocalServerJob,
+  LocalResultFormat,
+  TranscriptionProgress,
+  TranscriptionResult,
+  TranscriptWord
+} from '../types';
+
+/*
+ * Client for the offline Whisper server in tools/offline_whisper_server.
+ *
+ *   GET  /health                        -> LocalServerHealth
+ *   POST /jobs   (multipart: file, model?, language?) -> LocalServerJob
+ *   GET  /jobs/{id}                     -> LocalServerJob
+ *   GET  /jobs/{id}/result?format=txt|srt|vtt   -> text/plain
+ *   GET  /jobs/{id}/result?format=json  -> { text, words: TranscriptWord[] }
+ *
+ * Errors are returned as JSON `{ "detail": "..." }` with a non-2xx status.
+ */
+
+const POLL_INTERVAL_MS = 1000;
+const HEALTH_TIMEOUT_MS = 5000;
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function request(url: string, init?: RequestInit): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch (e) {
+    throw new Error(`Local server unreachable at ${url}. Is it running?`);
+  }
+  if (!res.ok) {
+    let detail = res.statusText;
+    try {
+      detail = (await res.json()).detail || detail;
+    } catch (e) {}
+    throw new Error(`Local server error (${res.status}): ${detail}`);
+  }
+  return res;
+}
+
+export async function checkLocalServer(baseUrl: string): Promise<LocalServerHealth> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  try {
+    const res = await request(`${trimSlash(baseUrl)}/health`, { signal: controller.signal });
+    return await res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function createLocalJob(
+  baseUrl: string,
+  audio: Blob,
+  filename: string,
+  model?: string,
+  language?: string
+): Promise<LocalServerJob> {
+  const form = new FormData();
+  form.append('file', audio, filename);
+  if (model) form.append('model', model);
+  if (language) form.append('language', language);
+  const res = await request(`${trimSlash(baseUrl)}/jobs`, { method: 'POST', body: form });
+  return res.json();
+}
+
+export async function getLocalJob(baseUrl: string, id: string): Promise<LocalServerJob> {
+  const res = await request(`${trimSlash(baseUrl)}/jobs/${encodeURIComponent(id)}`);
+  return res.json();
+}
+
+export async function fetchLocalResult(baseUrl: string, id: string, format: 'json'): Promise<{ text: string; words: TranscriptWord[] }>;
+export async function fetchLocalResult(baseUrl: string, id: string, format: Exclude<LocalResultFormat, 'json'>): Promise<string>;
+export async function fetchLocalResult(baseUrl: string, id: string, format: LocalResultFormat): Promise<any> {
+  const res = await request(`${trimSlash(baseUrl)}/jobs/${encodeURIComponent(id)}/result?format=${format}`);
+  return format === 'json' ? res.json() : res.text();
+}
+
+export async function transcribeWithLocalServer(
+  baseUrl: string,
+  audio: Blob,
+  filename: string,
+  model: string | undefined,
+  language: string | undefined,
+  onProgress: (p: TranscriptionProgress) => void
+): Promise<TranscriptionResult> {
+  onProgress({ stage: 'uploading' });
+  let job = await createLocalJob(baseUrl, audio, filename, model, language);
+
+  while (job.status === 'queued' || job.status === 'running') {
+    onProgress({
+      stage: 'processing',
+      message: job.status === 'queued' ? 'queued' : `${Math.round(job.progress * 100)}%`
+    });
+    await sleep(POLL_INTERVAL_MS);
+    job = await getLocalJob(baseUrl, job.id);
+  }
+  if (job.status === 'error') throw new Error(`Local transcription failed: ${job.error || 'unknown error'}`);
+
+  // VTT is derived from the SRT wherever it is needed, so it isn't fetched.
+  const [srt, json] = await Promise.all([
+    fetchLocalResult(baseUrl, job.id, 'srt'),
+    fetchLocalResult(baseUrl, job.id, 'json')
+  ]);
+  return { text: json.text.trim(), srt, words: json.words };
+}
@@ -0,0 +1,194 @@
+import { AudioLevels, AudioSourceId, MixerLevels, MixerSettings } from '../types';
+
+const MIXER_KEY = 'decdecrec.mixer';
+
+export const SILENCE_DB = -100;
+const GATE_INTERVAL_MS = 20;
+// The gate stays open this long after the level drops, so word endings aren't clipped.
+const GATE_HOLD_MS = 200;
+
+export const DEFAULT_MIXER_SETTINGS: MixerSettings = {
+  captureSystemAudio: true,
+  channels: {
+    mic: { gain: 1, muted: false },
+    system: { gain: 0.6, muted: false }
+  },
+  compressor: false,
+  noiseGate: { enabled: false, thresholdDb: -50 }
+};
+
+export function loadMixerSettings(): MixerSettings {
+  try {
+    const raw = localStorage.getItem(MIXER_KEY);
+    if (!raw) return structuredClone(DEFAULT_MIXER_SETTINGS);
+    const parsed = JSON.parse(raw);
+    return {
+      ...DEFAULT_MIXER_SETTINGS,
+      ...parsed,
+      channels: { ...DEFAULT_MIXER_SETTINGS.channels, ...parsed.channels },
+      noiseGate: { ...DEFAULT_MIXER_SETTINGS.noiseGate, ...parsed.noiseGate }
+    };
+  } catch (e) {
+    return structuredClone(DEFAULT_MIXER_SETTINGS);
+  }
+}
+
+export function saveMixerSettings(settings: MixerSettings) {
+  localStorage.setItem(MIXER_KEY, JSON.stringify(settings));
+}
+
+export const toDb = (linear: number) => linear > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(linear)) : SILENCE_DB;
+
+interface Channel {
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  gate: GainNode;
+  probe: AnalyserNode; // pre-gate level, what the noise gate listens to
+  meter: AnalyserNode;
+}
+
+function measure(analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): AudioLevels {
+  analyser.getFloatTimeDomainData(buffer);
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const v = Math.abs(buffer[i]);
+    if (v > peak) peak = v;
+    sum += v * v;
+  }
+  return { peak: toDb(peak), rms: toDb(Math.sqrt(sum / buffer.length)) };
+}
+
+// Web Audio graph behind a recording:
+//   source -> gain (level + mute) -> gate -> meter -> bus -> [compressor -> limiter] -> output
+// Settings can be changed live; the graph is only rewired for the dynamics section.
+export class AudioMixer {
+  private ctx: AudioContext;
+  private channels: Partial<Record<AudioSourceId, Channel>> = {};
+  private bus: GainNode;
+  private compressor: DynamicsCompressorNode;
+  private limiter: DynamicsCompressorNode;
+  private masterMeter: AnalyserNode;
+  private destination: MediaStreamAudioDestinationNode;
+  private buffer: Float32Array<ArrayBuffer>;
+  private gateTimer: number | null = null;
+  private gateOpenUntil = 0;
+  private settings: MixerSettings;
+
+  constructor(settings: MixerSettings) {
+    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.settings = structuredClone(settings);
+    this.bus = this.ctx.createGain();
+    this.compressor = this.ctx.createDynamicsCompressor();
+    this.compressor.threshold.value = -18;
+    this.compressor.knee.value = 6;
+    this.compressor.ratio.value = 4;
+    this.compressor.attack.value = 0.003;
+    this.compressor.release.value = 0.25;
+    this.limiter = this.ctx.createDynamicsCompressor();
+    this.limiter.threshold.value = -1;
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.1;
+    this.masterMeter = this.createMeter();
+    this.destination = this.ctx.createMediaStreamDestination();
+    this.buffer = new Float32Array(this.masterMeter.fftSize);
+    this.compressor.connect(this.limiter);
+    this.masterMeter.connect(this.destination);
+    this.routeDynamics();
+  }
+
+  private createMeter(): AnalyserNode {
+    const analyser = this.ctx.createAnalyser();
+    analyser.fftSize = 2048;
+    return analyser;
+  }
+
+  private routeDynamics() {
+    this.bus.disconnect();
+    this.limiter.disconnect();
+    if (this.settings.compressor) {
+      this.bus.connect(this.compressor);
+      this.limiter.connect(this.masterMeter);
+    } else {
+      this.bus.connect(this.masterMeter);
+    }
+  }
+
+  public addSource(id: AudioSourceId, stream: MediaStream) {
+    const source = this.ctx.createMediaStreamSource(stream);
+    const gain = this.ctx.createGain();
+    const gate = this.ctx.createGain();
+    const probe = this.createMeter();
+    const meter = this.createMeter();
+    source.connect(gain).connect(gate).connect(meter).connect(this.bus);
+    gain.connect(probe);
+    this.channels[id] = { source, gain, gate, probe, meter };
+    this.applyChannel(id);
+    if (id === 'mic') this.startGate();
+  }
+
+  public hasSource(id: AudioSourceId): boolean {
+    return !!this.channels[id];
+  }
+
+  public get stream(): MediaStream {
+    return this.destination.stream;
+  }
+
+  public getSettings(): MixerSettings {
+    return structuredClone(this.settings);
+  }
+
+  public apply(settings: MixerSettings) {
+    const dynamicsChanged = settings.compressor !== this.settings.compressor;
+    this.settings = structuredClone(settings);
+    (Object.keys(this.channels) as AudioSourceId[]).forEach(id => this.applyChannel(id));
+    if (dynamicsChanged) this.routeDynamics();
+    if (!this.settings.noiseGate.enabled && this.channels.mic) {
+      this.channels.mic.gate.gain.setTargetAtTime(1, this.ctx.currentTime, 0.01);
+    }
+  }
+
+  private applyChannel(id: AudioSourceId) {
+    const channel = this.channels[id];
+    if (!channel) return;
+    const { gain, muted } = this.settings.channels[id];
+    // Short ramp so mute and slider moves don't click.
+    channel.gain.gain.setTargetAtTime(muted ? 0 : gain, this.ctx.currentTime, 0.015);
+  }
+
+  // The gate listens after the gain stage, so the threshold tracks what is heard.
+  private startGate() {
+    if (this.gateTimer) return;
+    const gateBuffer = new Float32Array(2048);
+    this.gateTimer = window.setInterval(() => {
+      const mic = this.channels.mic;
+      if (!mic || !this.settings.noiseGate.enabled) return;
+      const level = measure(mic.probe, gateBuffer).rms;
+      const now = performance.now();
+      if (level >= this.settings.noiseGate.thresholdDb) this.gateOpenUntil = now + GATE_HOLD_MS;
+      const open = now < this.gateOpenUntil;
+      // Fast attack, slower release.
+      mic.gate.gain.setTargetAtTime(open ? 1 : 0, this.ctx.currentTime, open ? 0.005 : 0.05);
+    }, GATE_INTERVAL_MS);
+  }
+
+  public getLevels(): MixerLevels {
+    const silent: AudioLevels = { peak: SILENCE_DB, rms: SILENCE_DB };
+    return {
+      mic: this.channels.mic ? measure(this.channels.mic.meter, this.buffer) : silent,
+      system: this.channels.system ? measure(this.channels.system.meter, this.buffer) : silent,
+      master: measure(this.masterMeter, this.buffer)
+    };
+  }
+
+  public async close() {
+    if (this.gateTimer) clearInterval(this.gateTimer);
+    this.gateTimer = null;
+    Object.values(this.channels).forEach(c => c?.source.disconnect());
+    this.channels = {};
+    if (this.ctx.state !== 'closed') await this.ctx.close().catch(() => {});
+  }
+}
@@ -0,0 +1,37 @@
+// Every object URL the UI shows goes through here. URLs are shared per Blob
+// and reference-counted, so a recording shown in two places gets one URL,
+// and it is revoked once the last user lets go.
+const entries = new Map<Blob, { url: string; refs: number }>();
+
+// Long enough for the browser to start reading the file after the click.
+const DOWNLOAD_REVOKE_MS = 60000;
+
+export function acquireObjectUrl(blob: Blob): string {
+  const entry = entries.get(blob);
+  if (entry) {
+    entry.refs++;
+    return entry.url;
+  }
+  const url = URL.createObjectURL(blob);
+  entries.set(blob, { url, refs: 1 });
+  return url;
+}
+
+export function releaseObjectUrl(blob: Blob) {
+  const entry = entries.get(blob);
+  if (!entry) return;
+  if (--entry.refs > 0) return;
+  URL.revokeObjectURL(entry.url);
+  entries.delete(blob);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = acquireObjectUrl(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.setTimeout(() => releaseObjectUrl(blob), DOWNLOAD_REVOKE_MS);
+}
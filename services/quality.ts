@@ -0,0 +1,129 @@
+import { QualityConfig, RecordingCodec, RecordingFormat, Resolution, VideoContainer } from '../types';
+
+const QUALITY_KEY = 'decdecrec.quality';
+
+export const DEFAULT_QUALITY: QualityConfig = {
+  resolution: '1080p',
+  fps: 30,
+  codec: 'auto',
+  videoBitrate: null,
+  audioBitrate: null
+};
+
+export const RESOLUTIONS: Record<Exclude<Resolution, 'custom'>, { label: string; shortSide: number }> = {
+  '720p': { label: '720p', shortSide: 720 },
+  '1080p': { label: '1080p', shortSide: 1080 },
+  '1440p': { label: '1440p', shortSide: 1440 },
+  '2160p': { label: '4K', shortSide: 2160 }
+};
+
+export const MIN_SHORT_SIDE = 240;
+export const MAX_SHORT_SIDE = 4320;
+
+export const resolutionLabel = (quality: QualityConfig) =>
+  quality.resolution === 'custom' ? `${shortSideFor(quality)}p` : RESOLUTIONS[quality.resolution]?.label || quality.resolution;
+
+// Encoders want even dimensions.
+export function shortSideFor(quality: QualityConfig): number {
+  if (quality.resolution !== 'custom') return RESOLUTIONS[quality.resolution]?.shortSide || 1080;
+  const px = Math.round(quality.customShortSide || 1080);
+  return Math.round(Math.min(MAX_SHORT_SIDE, Math.max(MIN_SHORT_SIDE, px)) / 2) * 2;
+}
+
+// The largest preset the footage fills, for videos that did not come from the recorder.
+export function presetForShortSide(px: number): Exclude<Resolution, 'custom'> {
+  const fits = (Object.keys(RESOLUTIONS) as Exclude<Resolution, 'custom'>[]).filter(r => RESOLUTIONS[r].shortSide <= px);
+  return fits[fits.length - 1] || '720p';
+}
+
+export const VIDEO_BITRATES: { label: string; value: number | null }[] = [
+  { label: 'Auto', value: null },
+  { label: '2.5 Mbps', value: 2500000 },
+  { label: '5 Mbps', value: 5000000 },
+  { label: '8 Mbps', value: 8000000 },
+  { label: '12 Mbps', value: 12000000 },
+  { label: '20 Mbps', value: 20000000 },
+  { label: '40 Mbps', value: 40000000 }
+];
+
+export const AUDIO_BITRATES: { label: string; value: number | null }[] = [
+  { label: 'Auto', value: null },
+  { label: '96 kbps', value: 96000 },
+  { label: '128 kbps', value: 128000 },
+  { label: '192 kbps', value: 192000 },
+  { label: '256 kbps', value: 256000 }
+];
+
+interface CodecCandidate {
+  codec: RecordingCodec;
+  label: string;
+  container: VideoContainer;
+  mimeTypes: string[]; // most specific first
+}
+
+// Ranked: the first supported entry is what 'auto' records with. VP9 stays
+// first because FFmpeg stream-copies WebM and the WebM fixer adds cues.
+export const CODECS: CodecCandidate[] = [
+  { codec: 'vp9', label: 'VP9', container: 'webm', mimeTypes: ['video/webm;codecs=vp9,opus'] },
+  { codec: 'vp8', label: 'VP8', container: 'webm', mimeTypes: ['video/webm;codecs=vp8,opus', 'video/webm'] },
+  { codec: 'av1', label: 'AV1', container: 'webm', mimeTypes: ['video/webm;codecs=av01,opus', 'video/webm;codecs=av1,opus'] },
+  { codec: 'h264', label: 'H.264', container: 'mp4', mimeTypes: ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4;codecs=avc1', 'video/mp4'] }
+];
+
+const AUDIO_MIME_TYPES: Record<VideoContainer, string[]> = {
+  webm: ['audio/webm;codecs=opus', 'audio/webm'],
+  mp4: ['audio/mp4;codecs=mp4a.40.2', 'audio/mp4']
+};
+
+const isSupported = (mimeType: string) =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+
+export const codecLabel = (codec: RecordingCodec) => CODECS.find(c => c.codec === codec)?.label || codec;
+
+// The codecs this browser can record, in ranking order.
+export function probeRecordingCodecs(): RecordingCodec[] {
+  return CODECS.filter(c => c.mimeTypes.some(isSupported)).map(c => c.codec);
+}
+
+// The preferred codec when supported, otherwise the best-ranked one that is.
+export function pickRecordingFormat(quality: QualityConfig): RecordingFormat {
+  const preferred = CODECS.find(c => c.codec === quality.codec);
+  const chain = preferred ? [preferred, ...CODECS.filter(c => c !== preferred)] : CODECS;
+
+  for (const candidate of chain) {
+    const mimeType = candidate.mimeTypes.find(isSupported);
+    if (!mimeType) continue;
+    // The audio-only take prefers the video's container, so both decode alike.
+    const audioMimeType = [...AUDIO_MIME_TYPES[candidate.container], ...Object.values(AUDIO_MIME_TYPES).flat()].find(isSupported);
+    if (!audioMimeType) continue;
+    return {
+      codec: candidate.codec,
+      container: candidate.container,
+      mimeType,
+      audioMimeType,
+      ...(quality.videoBitrate ? { videoBitsPerSecond: quality.videoBitrate } : {}),
+      ...(quality.audioBitrate ? { audioBitsPerSecond: quality.audioBitrate } : {})
+    };
+  }
+  throw new Error('This browser cannot record video with any supported codec (VP9, VP8, AV1 or H.264).');
+}
+
+// 'audio/mp4' -> 'm4a'; anything else is WebM.
+export const audioExtension = (blob: Blob) => blob.type.includes('mp4') ? 'm4a' : 'webm';
+
+export function loadQuality(): QualityConfig {
+  try {
+    const raw = localStorage.getItem(QUALITY_KEY);
+    if (!raw) return DEFAULT_QUALITY;
+    const parsed = { ...DEFAULT_QUALITY, ...JSON.parse(raw) };
+    if (parsed.resolution !== 'custom' && !(parsed.resolution in RESOLUTIONS)) parsed.resolution = DEFAULT_QUALITY.resolution;
+    if (parsed.fps !== 30 && parsed.fps !== 60) parsed.fps = DEFAULT_QUALITY.fps;
+    return parsed;
+  } catch (e) {
+    return DEFAULT_QUALITY;
+  }
+}
+
+export function saveQuality(quality: QualityConfig) {
+  localStorage.setItem(QUALITY_KEY, JSON.stringify(quality));
+}
@@ -1,30 +1,64 @@
 
-import { LayoutStyle, QualityConfig } from '../types';
+import { LayoutDefinition, QualityConfig, RecordingOutput, WebcamKeyframe, CaptureDevices, ChunkTrack, SessionMetadata, SceneChange, MixerSettings, RecordingMarker, RecordingTimeline, RecordingFormat, RenderStats, PointerEffects, ZoomCamera, ZoomKeyframe, Annotation, AnnotationEvent, AnnotationSettings, WebcamAppearance } from '../types';
+import { BUILT_IN_LAYOUTS, canvasSizeFor } from './layouts';
+import { sameAspect } from './scenes';
+import { RenderLoop, createRenderLoop } from './renderLoop';
+import { extendAnnotation, isEmptyAnnotation } from './annotations';
+import { DEFAULT_POINTER_EFFECTS, FULL_FRAME, HOTKEY_ZOOM, cameraForRect, canvasRectToRegion, screenRegionRect } from './camera';
+import { AudioMixer } from './mixer';
+import { RecordingClock } from './clock';
+import { pickRecordingFormat, shortSideFor } from './quality';
+import { DEFAULT_WEBCAM_APPEARANCE, clampWebcamSize } from './webcamStyle';
+import { seekable } from './webm';
+import { appendRecordingChunk, createPendingRecording, deletePendingRecording, getRecordingChunks } from './db';
 
 export class VideoRecorder {
   private mediaRecorder: MediaRecorder | null = null;
+  private audioRecorder: MediaRecorder | null = null;
+  // Chunks go straight to IndexedDB; these only hold what could not be persisted.
   private chunks: Blob[] = [];
+  private audioChunks: Blob[] = [];
+  private recordingId: string | null = null;
+  private chunkSeq: Record<ChunkTrack, number> = { video: 0, audio: 0 };
+  private persistQueue: Promise<void> = Promise.resolve();
+  // Why chunks stopped reaching IndexedDB; crash recovery is off for the take once set.
+  private persistError: string | null = null;
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private renderLoop: RenderLoop | null = null;
   private screenStream: MediaStream | null = null;
   private webcamStream: MediaStream | null = null;
   private audioStream: MediaStream | null = null;
-  private renderInterval: number | null = null;
-  private targetFps: number = 30;
-  private currentLayout: LayoutStyle = 'CIRCLE';
+  private currentLayout: LayoutDefinition = BUILT_IN_LAYOUTS.CIRCLE;
+  private startLayout: LayoutDefinition = BUILT_IN_LAYOUTS.CIRCLE;
+  private sceneTimeline: SceneChange[] = [];
+  private markers: RecordingMarker[] = [];
+  private zoom: ZoomCamera = FULL_FRAME;
+  private zoomTimeline: ZoomKeyframe[] = [];
+  private pointer: { x: number; y: number } | null = null;
+  private pointerEffects: PointerEffects = DEFAULT_POINTER_EFFECTS;
+  private annotationLog: AnnotationEvent[] = [];
+  // What undo can still take back, newest last; expiresAt is in recorded seconds, like the fades.
+  private annotationStack: { id: string; expiresAt: number }[] = [];
+  private draftAnnotation: Annotation | null = null;
+  private draftStartedAt = 0;
+  private webcamHidden = false;
+  private micStream: MediaStream | null = null;
+  private mixer: AudioMixer | null = null;
+  private clock = new RecordingClock();
+  private webcamTimeline: WebcamKeyframe[] = [];
+  private devices: CaptureDevices = { systemAudio: false };
+  private format: RecordingFormat | null = null;
 
   public webcamPos = { x: 85, y: 85 };
-  public webcamSize = 240;
+  private webcamAppearance: WebcamAppearance = DEFAULT_WEBCAM_APPEARANCE;
+  // Size at the start of the take; the timeline logs sizes that differ from it.
+  private startWebcamSize = DEFAULT_WEBCAM_APPEARANCE.size;
 
   private screenVideo: HTMLVideoElement = document.createElement('video');
   private webcamVideo: HTMLVideoElement = document.createElement('video');
 
   constructor() {
     this.canvas = document.createElement('canvas');
-    const context = this.canvas.getContext('2d', { alpha: false });
-    if (!context) throw new Error('Could not get canvas context');
-    this.ctx = context;
-    
     this.canvas.width = 1280;
     this.canvas.height = 720;
 
@@ -40,38 +74,349 @@ export class VideoRecorder {
     return this.canvas;
   }
 
+  // The live mix of the current take, for meters and level changes.
+  public getMixer(): AudioMixer | null {
+    return this.mixer;
+  }
+
   public updateWebcamPos(x: number, y: number) {
     this.webcamPos = { 
       x: Math.max(0, Math.min(100, x)), 
       y: Math.max(0, Math.min(100, y)) 
     };
+    this.renderLoop?.setState(this.compositorState());
+    if (this.mediaRecorder) this.logWebcamPos();
+  }
+
+  public addMarker(label?: string): RecordingMarker | null {
+    if (!this.mediaRecorder) return null;
+    const marker: RecordingMarker = {
+      t: Math.round(this.getElapsedSeconds() * 1000) / 1000,
+      label: label || `Chapter ${this.markers.length + 1}`
+    };
+    this.markers.push(marker);
+    return marker;
+  }
+
+  public getMarkers(): RecordingMarker[] {
+    return this.markers.map(m => ({ ...m }));
+  }
+
+  public renameMarker(index: number, label: string) {
+    if (this.markers[index]) this.markers[index].label = label;
+  }
+
+  // Hides the webcam from the composite without releasing the camera.
+  public setWebcamVisible(visible: boolean) {
+    this.webcamHidden = !visible;
+    this.renderLoop?.setWebcamVisible(visible);
+  }
+
+  public isWebcamVisible(): boolean {
+    return !!this.webcamStream && !this.webcamHidden;
+  }
+
+  private compositorState() {
+    return { webcamPos: { ...this.webcamPos }, webcamSize: this.webcamAppearance.size, webcam: this.webcamAppearance };
+  }
+
+  public setWebcamAppearance(appearance: WebcamAppearance) {
+    const resized = appearance.size !== this.webcamAppearance.size;
+    this.webcamAppearance = { ...appearance, size: clampWebcamSize(appearance.size) };
+    this.renderLoop?.setState(this.compositorState());
+    if (this.mediaRecorder && resized) this.logWebcamPos();
+  }
+
+  public getWebcamAppearance(): WebcamAppearance {
+    return this.webcamAppearance;
+  }
+
+  public setPointerEffects(effects: PointerEffects) {
+    this.pointerEffects = effects;
+    this.renderLoop?.setEffects(effects);
+  }
+
+  // Pointer position over the preview, in percent of the canvas; null when it leaves.
+  public updatePointer(pointer: { x: number; y: number } | null) {
+    this.pointer = pointer;
+    this.renderLoop?.setPointer(pointer);
+  }
+
+  public click(x: number, y: number) {
+    this.renderLoop?.click(x, y);
+  }
+
+  public isZoomed(): boolean {
+    return this.zoom.scale > 1;
+  }
+
+  public setZoom(camera: ZoomCamera) {
+    this.zoom = camera;
+    this.renderLoop?.setZoom(camera);
+    if (this.mediaRecorder) this.logZoom();
+  }
+
+  // Zooms to a rectangle dragged on the preview, in percent of the canvas.
+  // Returns false when the rectangle misses the screen or is too small.
+  public zoomToCanvasRect(rect: { x: number; y: number; w: number; h: number }): boolean {
+    const { width, height } = this.canvas;
+    const region = screenRegionRect(this.currentLayout, width, height, this.compositorState());
+    if (!region) return false;
+    const px = { x: (rect.x / 100) * width, y: (rect.y / 100) * height, w: (rect.w / 100) * width, h: (rect.h / 100) * height };
+    const target = canvasRectToRegion(px, region, this.zoom);
+    const camera = target && cameraForRect(target);
+    if (!camera) return false;
+    this.setZoom(camera);
+    return true;
+  }
+
+  // Zooms in around the pointer (or the middle of the screen), or back out.
+  public toggleZoom() {
+    if (this.isZoomed()) {
+      this.setZoom(FULL_FRAME);
+      return;
+    }
+    const { width, height } = this.canvas;
+    const region = screenRegionRect(this.currentLayout, width, height, this.compositorState());
+    if (!region) return;
+    const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+    const at = this.pointer
+      ? { x: clamp01(((this.pointer.x / 100) * width - region.x) / region.w), y: clamp01(((this.pointer.y / 100) * height - region.y) / region.h) }
+      : { x: 0.5, y: 0.5 };
+    this.setZoom({ x: Math.round(at.x * 1000) / 1000, y: Math.round(at.y * 1000) / 1000, scale: HOTKEY_ZOOM });
+  }
+
+  // Starts a stroke or shape at a point on the preview (percent of the canvas).
+  public beginAnnotation(settings: AnnotationSettings, x: number, y: number) {
+    if (!this.mediaRecorder) return;
+    this.draftStartedAt = this.annotationTime();
+    this.draftAnnotation = {
+      id: crypto.randomUUID(),
+      tool: settings.tool,
+      color: settings.color,
+      size: settings.size,
+      points: [{ x, y }],
+      ...(settings.fadeSeconds ? { fadeAfter: settings.fadeSeconds } : {})
+    };
+    this.renderLoop?.upsertAnnotation(this.draftAnnotation);
+  }
+
+  public extendAnnotation(x: number, y: number) {
+    if (!this.draftAnnotation) return;
+    const next = extendAnnotation(this.draftAnnotation, x, y);
+    if (next === this.draftAnnotation) return;
+    this.draftAnnotation = next;
+    this.renderLoop?.upsertAnnotation(next);
+  }
+
+  public endAnnotation() {
+    const annotation = this.draftAnnotation;
+    this.draftAnnotation = null;
+    if (!annotation) return;
+    if (isEmptyAnnotation(annotation)) {
+      this.renderLoop?.removeAnnotation(annotation.id);
+      return;
+    }
+    this.commitAnnotation(annotation, this.draftStartedAt);
+  }
+
+  public addTextAnnotation(settings: AnnotationSettings, x: number, y: number, text: string) {
+    if (!this.mediaRecorder) return;
+    const annotation: Annotation = {
+      id: crypto.randomUUID(),
+      tool: 'text',
+      color: settings.color,
+      size: settings.size,
+      points: [{ x, y }],
+      text,
+      ...(settings.fadeSeconds ? { fadeAfter: settings.fadeSeconds } : {})
+    };
+    if (isEmptyAnnotation(annotation)) return;
+    this.renderLoop?.upsertAnnotation(annotation);
+    this.commitAnnotation(annotation, this.annotationTime());
+  }
+
+  // Logged when finished, which is when its fade starts; `start` is when it first appeared.
+  private commitAnnotation(annotation: Annotation, start: number) {
+    const t = this.annotationTime();
+    const expiresAt = annotation.fadeAfter ? t + annotation.fadeAfter : Infinity;
+    this.annotationStack.push({ id: annotation.id, expiresAt });
+    this.annotationLog.push({ t, type: 'add', annotation, start });
+  }
+
+  // Takes back the newest annotation still on screen.
+  public undoAnnotation(): boolean {
+    const now = this.annotationTime();
+    this.annotationStack = this.annotationStack.filter(a => a.expiresAt > now);
+    const last = this.annotationStack.pop();
+    if (!last) return false;
+    this.renderLoop?.removeAnnotation(last.id);
+    this.annotationLog.push({ t: this.annotationTime(), type: 'undo', id: last.id });
+    return true;
+  }
+
+  public clearAnnotations() {
+    if (!this.mediaRecorder) return;
+    this.draftAnnotation = null;
+    this.annotationStack = [];
+    this.renderLoop?.clearAnnotations();
+    this.annotationLog.push({ t: this.annotationTime(), type: 'clear' });
+  }
+
+  private annotationTime() {
+    return Math.round(this.getElapsedSeconds() * 1000) / 1000;
+  }
+
+  // Cuts to another layout mid-take. The canvas keeps the size it started with,
+  // so the new layout must share the starting aspect ratio.
+  public switchLayout(layout: LayoutDefinition, sceneId?: string) {
+    if (!this.mediaRecorder) {
+      this.currentLayout = layout;
+      return;
+    }
+    if (!sameAspect(layout, this.startLayout)) {
+      throw new Error(`${layout.name} does not match the ${this.startLayout.aspect.w}:${this.startLayout.aspect.h} canvas of this recording.`);
+    }
+    if (layout === this.currentLayout) return;
+    this.renderLoop?.setLayout(layout, true);
+    this.currentLayout = layout;
+    this.logSceneChange(sceneId);
+  }
+
+  // Seconds of recorded (non-paused) time since start.
+  public getElapsedSeconds(): number {
+    return this.clock.elapsedSeconds();
+  }
+
+  public getTimeline(): RecordingTimeline {
+    return this.clock.getTimeline();
+  }
+
+  public isPaused(): boolean {
+    return this.clock.paused;
+  }
+
+  // Set once crash recovery is off for the current take; null while chunks are being saved.
+  public getPersistError(): string | null {
+    return this.persistError;
+  }
+
+  // Live compositor stats while recording; null between takes.
+  public getRenderStats(): RenderStats | null {
+    return this.renderLoop?.getStats() || null;
+  }
+
+  private buildMetadata(): SessionMetadata {
+    return {
+      webcamPos: { ...this.webcamPos },
+      webcamSize: this.webcamAppearance.size,
+      webcamAppearance: this.webcamAppearance,
+      webcamTimeline: this.webcamTimeline,
+      layout: this.startLayout,
+      sceneTimeline: this.sceneTimeline,
+      zoomTimeline: this.zoomTimeline,
+      annotations: this.annotationLog,
+      markers: this.markers,
+      canvas: { width: this.canvas.width, height: this.canvas.height },
+      devices: this.devices,
+      mixer: this.mixer?.getSettings(),
+      ...(this.format ? { format: this.format } : {}),
+      appVersion: __APP_VERSION__
+    };
+  }
+
+  // Writes are chained so chunks land in order. If a write fails (e.g. quota)
+  // the rest of the take falls back to memory rather than losing data.
+  private persistChunk(track: ChunkTrack, data: Blob) {
+    const recordingId = this.recordingId;
+    const seq = this.chunkSeq[track]++;
+    const progress = track === 'video' ? { elapsedSeconds: this.getElapsedSeconds(), metadata: this.buildMetadata() } : undefined;
+    const spill = track === 'video' ? this.chunks : this.audioChunks;
+    this.persistQueue = this.persistQueue.then(async () => {
+      if (this.persistError || !recordingId) {
+        spill.push(data);
+        return;
+      }
+      try {
+        await appendRecordingChunk({ recordingId, track, seq, data }, progress);
+      } catch (err) {
+        this.persistError = `Saving to browser storage failed (${err instanceof Error ? err.message : String(err)}); the rest of this take is kept in memory only.`;
+        spill.push(data);
+      }
+    });
+  }
+
+  private async assemble(track: ChunkTrack, type: string): Promise<Blob | null> {
+    const persisted = this.recordingId ? await getRecordingChunks(this.recordingId, track).catch(() => [] as Blob[]) : [];
+    const parts = [...persisted, ...(track === 'video' ? this.chunks : this.audioChunks)];
+    return parts.length > 0 ? new Blob(parts, { type }) : null;
+  }
+
+  private logWebcamPos() {
+    const t = Math.round(this.getElapsedSeconds() * 1000) / 1000;
+    const last = this.webcamTimeline[this.webcamTimeline.length - 1];
+    const x = Math.round(this.webcamPos.x * 10) / 10;
+    const y = Math.round(this.webcamPos.y * 10) / 10;
+    const size = this.webcamAppearance.size;
+    const lastSize = [...this.webcamTimeline].reverse().find(k => k.size !== undefined)?.size ?? this.startWebcamSize;
+    const resized = size !== lastSize;
+    if (last && last.x === x && last.y === y && !resized) return;
+    // Collapse bursts from a single drag or resize into one keyframe per ~100ms.
+    if (last && t - last.t < 0.1) {
+      last.x = x;
+      last.y = y;
+      if (resized || last.size !== undefined) last.size = size;
+      return;
+    }
+    this.webcamTimeline.push(resized ? { t, x, y, size } : { t, x, y });
+  }
+
+  private logZoom() {
+    const t = Math.round(this.getElapsedSeconds() * 1000) / 1000;
+    const keyframe: ZoomKeyframe = { t, ...this.zoom };
+    const last = this.zoomTimeline[this.zoomTimeline.length - 1];
+    if (last && last.t === t) this.zoomTimeline[this.zoomTimeline.length - 1] = keyframe;
+    else this.zoomTimeline.push(keyframe);
+  }
+
+  private logSceneChange(sceneId?: string) {
+    const t = Math.round(this.getElapsedSeconds() * 1000) / 1000;
+    const change: SceneChange = { t, layoutId: this.currentLayout.id };
+    if (sceneId) change.sceneId = sceneId;
+    // Several cuts within the same instant (e.g. while paused) keep only the last.
+    const last = this.sceneTimeline[this.sceneTimeline.length - 1];
+    if (last && last.t === t) this.sceneTimeline[this.sceneTimeline.length - 1] = change;
+    else this.sceneTimeline.push(change);
   }
 
   async start(
-    layout: LayoutStyle,
+    layout: LayoutDefinition,
     quality: QualityConfig,
     useWebcam: boolean,
     webcamId: string,
     micId: string,
-    captureSystemAudio: boolean
+    mixerSettings: MixerSettings,
+    sceneId?: string
   ): Promise<void> {
-    const width = quality.resolution === '720p' ? 1280 : 1920;
-    const height = quality.resolution === '720p' ? 720 : 1080;
-    this.targetFps = quality.fps;
+    // Negotiated before any prompt, so an unsupported browser fails without asking for the screen.
+    const format = pickRecordingFormat(quality);
+    const height = shortSideFor(quality);
+    const width = Math.round(height * 16 / 9 / 2) * 2;
+    this.format = format;
     this.currentLayout = layout;
+    this.startLayout = layout;
+    this.zoom = FULL_FRAME;
 
-    if (layout === 'SHORTS') {
-      this.canvas.width = quality.resolution === '720p' ? 720 : 1080;
-      this.canvas.height = quality.resolution === '720p' ? 1280 : 1920;
-    } else {
-      this.canvas.width = width;
-      this.canvas.height = height;
-    }
+    // A fresh canvas per take: one handed to the render worker cannot be reused.
+    const size = canvasSizeFor(layout, height);
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = size.width;
+    this.canvas.height = size.height;
 
     try {
       this.screenStream = await navigator.mediaDevices.getDisplayMedia({
         video: { frameRate: quality.fps, width, height },
-        audio: captureSystemAudio
+        audio: mixerSettings.captureSystemAudio
       });
       
       this.screenVideo.srcObject = this.screenStream;
@@ -86,151 +431,183 @@ export class VideoRecorder {
         await this.webcamVideo.play();
       }
 
-      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const dest = audioCtx.createMediaStreamDestination();
-      
       const micStream = await navigator.mediaDevices.getUserMedia({
         audio: { deviceId: micId ? { exact: micId } : undefined }
       });
 
-      const micSource = audioCtx.createMediaStreamSource(micStream);
-      micSource.connect(dest);
+      this.micStream = micStream;
 
-      if (this.screenStream.getAudioTracks().length > 0) {
-        const sysSource = audioCtx.createMediaStreamSource(this.screenStream);
-        sysSource.connect(dest);
-      }
+      this.mixer = new AudioMixer(mixerSettings);
+      this.mixer.addSource('mic', micStream);
 
-      this.audioStream = dest.stream;
+      const hasSystemAudio = this.screenStream.getAudioTracks().length > 0;
+      if (hasSystemAudio) this.mixer.addSource('system', this.screenStream);
+
+      this.audioStream = this.mixer.stream;
+      this.devices = {
+        screen: this.screenStream.getVideoTracks()[0]?.label,
+        webcam: this.webcamStream?.getVideoTracks()[0]?.label,
+        microphone: micStream.getAudioTracks()[0]?.label,
+        systemAudio: hasSystemAudio
+      };
+
+      this.renderLoop = createRenderLoop(this.canvas, {
+        fps: quality.fps,
+        layout,
+        state: this.compositorState(),
+        effects: this.pointerEffects,
+        feeds: {
+          screen: { track: this.screenStream.getVideoTracks()[0], video: this.screenVideo },
+          ...(this.webcamStream ? { webcam: { track: this.webcamStream.getVideoTracks()[0], video: this.webcamVideo } } : {})
+        }
+      });
 
       const stream = this.canvas.captureStream(quality.fps);
       this.audioStream.getAudioTracks().forEach(track => stream.addTrack(track));
 
-      const options = { mimeType: 'video/webm;codecs=vp9,opus' };
-      this.mediaRecorder = new MediaRecorder(stream, options);
+      this.mediaRecorder = new MediaRecorder(stream, {
+        mimeType: format.mimeType,
+        videoBitsPerSecond: format.videoBitsPerSecond,
+        audioBitsPerSecond: format.audioBitsPerSecond
+      });
       this.chunks = [];
 
       this.mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) this.chunks.push(e.data);
+        if (e.data.size > 0) this.persistChunk('video', e.data);
       };
 
-      this.mediaRecorder.start(100);
-      
-      this.renderInterval = window.setInterval(() => {
-        this.drawFrame(this.currentLayout);
-      }, 1000 / this.targetFps);
-
-    } catch (err) {
-      this.stop();
-      throw err;
-    }
-  }
+      // A separate audio-only take of the same mix, for transcription and the ZIP bundle.
+      this.audioRecorder = new MediaRecorder(new MediaStream(this.audioStream.getAudioTracks()), {
+        mimeType: format.audioMimeType,
+        audioBitsPerSecond: format.audioBitsPerSecond
+      });
+      this.audioChunks = [];
+      this.audioRecorder.ondataavailable = (e) => {
+        if (e.data.size > 0) this.persistChunk('audio', e.data);
+      };
 
-  private drawCover(img: HTMLVideoElement, x: number, y: number, w: number, h: number) {
-    if (img.videoWidth === 0 || img.readyState < 2) return;
-    const imgAspect = img.videoWidth / img.videoHeight;
-    const targetAspect = w / h;
-    
-    let sWidth, sHeight, sx, sy;
-    
-    if (imgAspect > targetAspect) {
-      sHeight = img.videoHeight;
-      sWidth = img.videoHeight * targetAspect;
-      sx = (img.videoWidth - sWidth) / 2;
-      sy = 0;
-    } else {
-      sWidth = img.videoWidth;
-      sHeight = img.videoWidth / targetAspect;
-      sx = 0;
-      sy = (img.videoHeight - sHeight) / 2;
-    }
-    
-    this.ctx.drawImage(img, sx, sy, sWidth, sHeight, x, y, w, h);
-  }
+      this.recordingId = crypto.randomUUID();
+      this.chunkSeq = { video: 0, audio: 0 };
+      this.persistQueue = Promise.resolve();
+      this.persistError = null;
+      this.webcamTimeline = [];
+      this.startWebcamSize = this.webcamAppearance.size;
+      this.sceneTimeline = [];
+      this.zoomTimeline = [];
+      this.annotationLog = [];
+      this.annotationStack = [];
+      this.draftAnnotation = null;
+      this.markers = [];
+      this.webcamHidden = false;
+      const now = new Date().toISOString();
+      await createPendingRecording({
+        id: this.recordingId,
+        startedAtISO: now,
+        updatedAtISO: now,
+        elapsedSeconds: 0,
+        layoutStyle: layout.id,
+        quality,
+        metadata: this.buildMetadata()
+      }).catch(err => {
+        this.persistError = `Could not register the take for crash recovery (${err instanceof Error ? err.message : String(err)}).`;
+      });
 
-  private drawFrame(layout: LayoutStyle) {
-    this.ctx.fillStyle = 'black';
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      this.mediaRecorder.start(1000);
+      this.audioRecorder.start(1000);
+      this.clock.start();
+      this.logWebcamPos();
+      this.logSceneChange(sceneId);
+      this.logZoom();
 
-    if (layout === 'CIRCLE') {
-      if (this.screenVideo.readyState >= 2) {
-        this.ctx.drawImage(this.screenVideo, 0, 0, this.canvas.width, this.canvas.height);
-      }
-      
-      if (this.webcamStream && this.webcamVideo.readyState >= 2) {
-        const cx = (this.webcamPos.x / 100) * this.canvas.width;
-        const cy = (this.webcamPos.y / 100) * this.canvas.height;
-        const radius = this.webcamSize / 2;
-
-        this.ctx.save();
-        this.ctx.beginPath();
-        this.ctx.arc(cx, cy, radius, 0, Math.PI * 2);
-        this.ctx.clip();
-        this.drawCover(this.webcamVideo, cx - radius, cy - radius, this.webcamSize, this.webcamSize);
-        this.ctx.restore();
-        
-        this.ctx.strokeStyle = 'white';
-        this.ctx.lineWidth = 4;
-        this.ctx.stroke();
-      }
-    } else if (layout === 'SHORTS') {
-      const h = this.canvas.height;
-      const w = this.canvas.width;
-      const halfH = h / 2;
-      this.drawCover(this.screenVideo, 0, 0, w, halfH);
-      if (this.webcamStream) {
-        this.drawCover(this.webcamVideo, 0, halfH, w, halfH);
-      } else {
-        this.ctx.fillStyle = '#111';
-        this.ctx.fillRect(0, halfH, w, halfH);
-      }
-      this.ctx.strokeStyle = 'white';
-      this.ctx.lineWidth = 6;
-      this.ctx.beginPath();
-      this.ctx.moveTo(0, halfH);
-      this.ctx.lineTo(w, halfH);
-      this.ctx.stroke();
+    } catch (err) {
+      // The take never started, so its pending record must not be offered for recovery.
+      const recordingId = this.recordingId;
+      await this.stop();
+      this.recordingId = null;
+      if (recordingId) await deletePendingRecording(recordingId).catch(() => {});
+      throw err;
     }
   }
 
-  public async stop(): Promise<Blob | null> {
+  private stopRecorder(recorder: MediaRecorder | null): Promise<void> {
     return new Promise((resolve) => {
-      if (!this.mediaRecorder || this.mediaRecorder.state === 'inactive') {
-        this.cleanup();
-        resolve(null);
+      if (!recorder || recorder.state === 'inactive') {
+        resolve();
         return;
       }
+      recorder.onstop = () => resolve();
+      recorder.stop();
+    });
+  }
 
-      this.mediaRecorder.onstop = () => {
-        const blob = this.chunks.length > 0 ? new Blob(this.chunks, { type: 'video/webm' }) : null;
-        this.chunks = [];
-        this.cleanup();
-        resolve(blob);
-      };
+  public async stop(): Promise<RecordingOutput | null> {
+    if (!this.mediaRecorder || this.mediaRecorder.state === 'inactive') {
+      this.cleanup();
+      return null;
+    }
 
-      this.mediaRecorder.stop();
-      if (this.renderInterval) {
-        clearInterval(this.renderInterval);
-        this.renderInterval = null;
+    const render = await this.renderLoop?.stop();
+    this.clock.stop();
+    await Promise.all([this.stopRecorder(this.mediaRecorder), this.stopRecorder(this.audioRecorder)]);
+    await this.persistQueue;
+
+    const durationSeconds = this.clock.elapsedSeconds();
+    const format = this.format!;
+    const videoBlob = await this.assemble('video', format.mimeType.split(';')[0]);
+    const audioBlob = await this.assemble('audio', format.audioMimeType.split(';')[0]);
+    // Only WebM needs duration and cues patched in; MP4 recorders write their own index.
+    const fix = (blob: Blob) => blob.type.includes('webm') ? seekable(blob, durationSeconds) : Promise.resolve({ blob, fixed: true });
+    const video = videoBlob ? await fix(videoBlob) : null;
+    const output: RecordingOutput | null = video && this.recordingId ? {
+      recordingId: this.recordingId,
+      durationSeconds,
+      videoBlob: video.blob,
+      audioBlob: audioBlob ? (await fix(audioBlob)).blob : undefined,
+      metadata: {
+        ...this.buildMetadata(),
+        timeline: this.clock.getTimeline(),
+        ...(render ? { render } : {}),
+        ...(video.fixed ? {} : { unseekable: true })
       }
-    });
+    } : null;
+    if (!output && this.recordingId) await deletePendingRecording(this.recordingId).catch(() => {});
+
+    this.chunks = [];
+    this.audioChunks = [];
+    this.recordingId = null;
+    this.cleanup();
+    return output;
   }
 
   private cleanup() {
     this.screenStream?.getTracks().forEach(t => t.stop());
     this.webcamStream?.getTracks().forEach(t => t.stop());
+    this.micStream?.getTracks().forEach(t => t.stop());
     this.audioStream?.getTracks().forEach(t => t.stop());
+    this.mixer?.close();
+    this.mixer = null;
+    this.mediaRecorder = null;
+    this.audioRecorder = null;
+    this.renderLoop?.stop();
+    this.renderLoop = null;
+    this.clock.reset();
     this.screenVideo.srcObject = null;
     this.webcamVideo.srcObject = null;
   }
 
   public pause() { 
+    if (!this.clock.running || this.clock.paused) return;
     this.mediaRecorder?.pause(); 
-    if (this.renderInterval) clearInterval(this.renderInterval);
+    this.audioRecorder?.pause();
+    this.clock.pause();
+    this.renderLoop?.pause();
   }
   
   public resume() { 
+    if (!this.clock.paused) return;
     this.mediaRecorder?.resume(); 
-    this.renderInterval = window.setInterval(() => this.drawFrame(this.currentLayout), 1000 / this.targetFps);
+    this.audioRecorder?.resume();
+    this.clock.resume();
+    this.renderLoop?.resume();
   }
 }
@@ -0,0 +1,52 @@
+import { PendingRecording, RecordingSession } from '../types';
+import { deletePendingRecording, getPendingRecordings, getRecordingChunks, saveSession } from './db';
+import { formatSessionId, nextFreeSessionId } from './sessionId';
+import { withThumbnails } from './frames';
+import { seekable } from './webm';
+
+// A take still being written to by another tab updates every second.
+const STALE_AFTER_MS = 10000;
+
+export async function findUnfinishedRecordings(): Promise<PendingRecording[]> {
+  const pending = await getPendingRecordings();
+  const cutoff = Date.now() - STALE_AFTER_MS;
+  return pending
+    .filter(p => Date.parse(p.updatedAtISO) < cutoff)
+    .sort((a, b) => b.startedAtISO.localeCompare(a.startedAtISO));
+}
+
+export async function recoverRecording(pending: PendingRecording, takenIds: Set<string>): Promise<RecordingSession | null> {
+  const [videoChunks, audioChunks] = await Promise.all([
+    getRecordingChunks(pending.id, 'video'),
+    getRecordingChunks(pending.id, 'audio')
+  ]);
+  if (videoChunks.length === 0) {
+    await deletePendingRecording(pending.id);
+    return null;
+  }
+
+  // `format` is optional on the metadata; without it, assume WebM.
+  const format = pending.metadata.format;
+  const container = format?.container || 'webm';
+  const videoBlob = new Blob(videoChunks, { type: format?.mimeType.split(';')[0] || 'video/webm' });
+  const audioBlob = audioChunks.length > 0 ? new Blob(audioChunks, { type: format?.audioMimeType.split(';')[0] || 'audio/webm' }) : undefined;
+  const fix = (blob: Blob) => blob.type.includes('webm') ? seekable(blob, pending.elapsedSeconds) : Promise.resolve({ blob, fixed: true });
+  const video = await fix(videoBlob);
+
+  const started = new Date(pending.startedAtISO);
+  const session: RecordingSession = {
+    id: nextFreeSessionId(formatSessionId(started), takenIds),
+    createdAtISO: pending.updatedAtISO,
+    durationSeconds: Math.round(pending.elapsedSeconds),
+    layoutStyle: pending.layoutStyle,
+    quality: pending.quality,
+    videoBlob: video.blob,
+    audioBlob: audioBlob ? (await fix(audioBlob)).blob : undefined,
+    videoType: container,
+    metadata: { ...pending.metadata, recovered: true, ...(video.fixed ? {} : { unseekable: true }) }
+  };
+  const saved = await withThumbnails(session);
+  await saveSession(saved);
+  await deletePendingRecording(pending.id);
+  return saved;
+}
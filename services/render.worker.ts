@@ -0,0 +1,134 @@
+import { CompositorState, FrameSource } from './compositor';
+import { FeedId, FrameMeter, RenderCommand, RenderEvent, SceneRenderer, STATS_INTERVAL_MS } from './renderLoop';
+
+// The compositor side of WorkerRenderLoop. Each feed's newest VideoFrame is
+// kept and drawn on a worker interval, so a hidden tab keeps its frame rate.
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<RenderCommand>) => void) | null;
+  postMessage: (event: RenderEvent) => void;
+};
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let renderer: SceneRenderer | null = null;
+let meter: FrameMeter | null = null;
+let state: CompositorState = { webcamPos: { x: 85, y: 85 }, webcamSize: 240 };
+let fps = 30;
+let webcamVisible = true;
+let interval: ReturnType<typeof setInterval> | null = null;
+let lastReport = 0;
+const frames: Partial<Record<FeedId, VideoFrame>> = {};
+const readers: ReadableStreamDefaultReader<VideoFrame>[] = [];
+
+async function pump(id: FeedId, stream: ReadableStream<VideoFrame>) {
+  const reader = stream.getReader();
+  readers.push(reader);
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      frames[id]?.close();
+      frames[id] = value;
+    }
+  } catch (e) {
+    // Cancelled on stop, or the track ended.
+  }
+}
+
+function source(id: FeedId): FrameSource | null {
+  const frame = frames[id];
+  return frame ? { image: frame, width: frame.displayWidth, height: frame.displayHeight } : null;
+}
+
+function tick() {
+  if (!canvas || !ctx || !renderer || !meter) return;
+  const started = performance.now();
+  meter.tick(started);
+  const sources = { screen: source('screen'), webcam: webcamVisible ? source('webcam') : null };
+  renderer.draw(ctx, sources, canvas.width, canvas.height, state);
+  meter.rendered(performance.now() - started);
+  if (started - lastReport >= STATS_INTERVAL_MS) {
+    lastReport = started;
+    scope.postMessage({ type: 'stats', stats: meter.snapshot() });
+  }
+}
+
+function pause() {
+  if (interval) clearInterval(interval);
+  interval = null;
+  meter?.pause();
+  renderer?.pause();
+}
+
+function resume() {
+  if (interval) return;
+  renderer?.resume();
+  interval = setInterval(tick, 1000 / fps);
+}
+
+function stop() {
+  pause();
+  readers.forEach(r => r.cancel().catch(() => {}));
+  (Object.keys(frames) as FeedId[]).forEach(id => {
+    frames[id]?.close();
+    delete frames[id];
+  });
+  if (meter) scope.postMessage({ type: 'stopped', stats: meter.snapshot() });
+}
+
+scope.onmessage = (e) => {
+  const command = e.data;
+  switch (command.type) {
+    case 'start':
+      canvas = command.canvas;
+      ctx = canvas.getContext('2d', { alpha: false });
+      renderer = new SceneRenderer(command.layout, command.effects);
+      meter = new FrameMeter('worker', command.fps);
+      state = command.state;
+      fps = command.fps;
+      resume();
+      break;
+    case 'feed':
+      pump(command.id, command.frames);
+      break;
+    case 'layout':
+      renderer?.setLayout(command.layout, command.crossfade);
+      break;
+    case 'state':
+      state = command.state;
+      break;
+    case 'webcamVisible':
+      webcamVisible = command.visible;
+      break;
+    case 'zoom':
+      renderer?.setZoom(command.camera);
+      break;
+    case 'pointer':
+      renderer?.setPointer(command.pointer);
+      break;
+    case 'click':
+      renderer?.click(command.x, command.y);
+      break;
+    case 'effects':
+      renderer?.setEffects(command.effects);
+      break;
+    case 'annotation':
+      renderer?.upsertAnnotation(command.annotation);
+      break;
+    case 'removeAnnotation':
+      renderer?.removeAnnotation(command.id);
+      break;
+    case 'clearAnnotations':
+      renderer?.clearAnnotations();
+      break;
+    case 'pause':
+      pause();
+      break;
+    case 'resume':
+      resume();
+      break;
+    case 'stop':
+      stop();
+      break;
+  }
+};
@@ -0,0 +1,422 @@
+import { Annotation, LayoutDefinition, PointerEffects, RenderMode, RenderStats, ZoomCamera } from '../types';
+import { Canvas2D, CompositorState, FrameSources, renderLayout, videoFrameSource } from './compositor';
+import { SCENE_CROSSFADE_MS } from './scenes';
+import { CameraAnimator, PointerOverlay } from './camera';
+import { AnnotationLayer } from './annotations';
+import { RecordingClock } from './clock';
+import { ChromaKeyer } from './webcamStyle';
+
+// Not in TypeScript's DOM lib yet; Chromium exposes it on window.
+declare class MediaStreamTrackProcessor {
+  constructor(init: { track: MediaStreamTrack });
+  readonly readable: ReadableStream<VideoFrame>;
+}
+
+export type FeedId = 'screen' | 'webcam';
+
+export interface RenderFeed {
+  track: MediaStreamTrack;
+  video: HTMLVideoElement; // only drawn from on the main-thread fallback
+}
+
+export interface RenderLoopOptions {
+  fps: number;
+  layout: LayoutDefinition;
+  state: CompositorState;
+  effects: PointerEffects;
+  feeds: Partial<Record<FeedId, RenderFeed>>;
+}
+
+export type RenderCommand =
+  | { type: 'start'; canvas: OffscreenCanvas; fps: number; layout: LayoutDefinition; state: CompositorState; effects: PointerEffects }
+  | { type: 'feed'; id: FeedId; frames: ReadableStream<VideoFrame> }
+  | { type: 'layout'; layout: LayoutDefinition; crossfade: boolean }
+  | { type: 'state'; state: CompositorState }
+  | { type: 'webcamVisible'; visible: boolean }
+  | { type: 'zoom'; camera: ZoomCamera }
+  | { type: 'pointer'; pointer: { x: number; y: number } | null }
+  | { type: 'click'; x: number; y: number }
+  | { type: 'effects'; effects: PointerEffects }
+  | { type: 'annotation'; annotation: Annotation }
+  | { type: 'removeAnnotation'; id: string }
+  | { type: 'clearAnnotations' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'stop' };
+
+export type RenderEvent =
+  | { type: 'stats'; stats: RenderStats }
+  | { type: 'stopped'; stats: RenderStats };
+
+// How often the worker posts its running stats to the UI.
+export const STATS_INTERVAL_MS = 500;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Counts ticks that arrived too late to keep the target rate, and how long
+// each composite took.
+export class FrameMeter {
+  private frames = 0;
+  private dropped = 0;
+  private totalMs = 0;
+  private maxMs = 0;
+  private lastTick: number | null = null;
+
+  constructor(private mode: RenderMode, private fps: number) {}
+
+  tick(now: number) {
+    if (this.lastTick !== null) {
+      const missed = Math.round((now - this.lastTick) / (1000 / this.fps)) - 1;
+      if (missed > 0) this.dropped += missed;
+    }
+    this.lastTick = now;
+  }
+
+  rendered(ms: number) {
+    this.frames++;
+    this.totalMs += ms;
+    this.maxMs = Math.max(this.maxMs, ms);
+  }
+
+  // The loop stops while paused; that gap is not dropped frames.
+  pause() {
+    this.lastTick = null;
+  }
+
+  snapshot(): RenderStats {
+    return {
+      mode: this.mode,
+      targetFps: this.fps,
+      framesRendered: this.frames,
+      framesDropped: this.dropped,
+      avgRenderMs: this.frames ? round2(this.totalMs / this.frames) : 0,
+      maxRenderMs: round2(this.maxMs)
+    };
+  }
+}
+
+// Draws the current layout, cross-fading out of the previous one after a
+// scene change, with the screen camera, annotations and pointer overlays on top. All
+// animation runs on the clock of whichever thread draws.
+export class SceneRenderer {
+  private fadingFrom: LayoutDefinition | null = null;
+  private fadeStartedAt = 0;
+  private camera = new CameraAnimator();
+  private annotations = new AnnotationLayer();
+  private keyer = new ChromaKeyer();
+  private overlay: PointerOverlay;
+  // Recorded time on this thread, paused with the take; annotation fades use it.
+  private clock = new RecordingClock();
+
+  constructor(private layout: LayoutDefinition, effects: PointerEffects) {
+    this.overlay = new PointerOverlay(effects);
+    this.clock.start();
+  }
+
+  pause() {
+    this.clock.pause();
+  }
+
+  resume() {
+    this.clock.resume();
+  }
+
+  private recordedMs() {
+    return this.clock.elapsedSeconds() * 1000;
+  }
+
+  setZoom(camera: ZoomCamera) {
+    this.camera.set(camera, performance.now());
+  }
+
+  setPointer(pointer: { x: number; y: number } | null) {
+    this.overlay.setPointer(pointer);
+  }
+
+  click(x: number, y: number) {
+    this.overlay.click(x, y, performance.now());
+  }
+
+  setEffects(effects: PointerEffects) {
+    this.overlay.setEffects(effects);
+  }
+
+  upsertAnnotation(annotation: Annotation) {
+    this.annotations.upsert(annotation, this.recordedMs());
+  }
+
+  removeAnnotation(id: string) {
+    this.annotations.remove(id);
+  }
+
+  clearAnnotations() {
+    this.annotations.clear();
+  }
+
+  setLayout(layout: LayoutDefinition, crossfade: boolean) {
+    this.fadingFrom = crossfade ? this.layout : null;
+    this.fadeStartedAt = performance.now();
+    this.layout = layout;
+  }
+
+  draw(ctx: Canvas2D, frameSources: FrameSources, width: number, height: number, compositorState: CompositorState) {
+    const now = performance.now();
+    // Keyed once per frame, before a cross-fade draws the webcam twice.
+    const chromaKey = compositorState.webcam?.chromaKey;
+    const sources = chromaKey?.enabled && frameSources.webcam
+      ? { ...frameSources, webcam: this.keyer.key(frameSources.webcam, chromaKey) }
+      : frameSources;
+    const state = { ...compositorState, screenView: this.camera.current(now) };
+    const fade = this.fadingFrom ? (now - this.fadeStartedAt) / SCENE_CROSSFADE_MS : 1;
+    if (this.fadingFrom && fade < 1) {
+      renderLayout(ctx, this.fadingFrom, sources, width, height, state);
+      ctx.globalAlpha = fade;
+      renderLayout(ctx, this.layout, sources, width, height, state);
+      ctx.globalAlpha = 1;
+    } else {
+      this.fadingFrom = null;
+      renderLayout(ctx, this.layout, sources, width, height, state);
+    }
+    this.annotations.draw(ctx, width, height, this.recordedMs());
+    this.overlay.draw(ctx, width, height, now);
+  }
+}
+
+export interface RenderLoop {
+  readonly mode: RenderMode;
+  setLayout(layout: LayoutDefinition, crossfade: boolean): void;
+  setState(state: CompositorState): void;
+  setWebcamVisible(visible: boolean): void;
+  setZoom(camera: ZoomCamera): void;
+  setPointer(pointer: { x: number; y: number } | null): void;
+  click(x: number, y: number): void;
+  setEffects(effects: PointerEffects): void;
+  upsertAnnotation(annotation: Annotation): void;
+  removeAnnotation(id: string): void;
+  clearAnnotations(): void;
+  pause(): void;
+  resume(): void;
+  getStats(): RenderStats;
+  // Resolves with the final stats once drawing has stopped.
+  stop(): Promise<RenderStats>;
+}
+
+export const canRenderInWorker = () =>
+  typeof OffscreenCanvas !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype &&
+  typeof MediaStreamTrackProcessor !== 'undefined';
+
+// Composites in a worker on an OffscreenCanvas. Worker timers are not
+// throttled when the tab is hidden, which is the usual case while recording
+// another window. Frames arrive straight from the tracks, not via <video>.
+class WorkerRenderLoop implements RenderLoop {
+  readonly mode: RenderMode = 'worker';
+  private worker: Worker;
+  private stats: RenderStats;
+  private error: string | null = null;
+  private stopped: Promise<RenderStats> | null = null;
+
+  constructor(canvas: HTMLCanvasElement, options: RenderLoopOptions) {
+    this.stats = new FrameMeter(this.mode, options.fps).snapshot();
+    // Everything that can throw runs before the canvas is transferred, so the
+    // caller can still fall back to drawing on it here.
+    const feeds = (Object.entries(options.feeds) as [FeedId, RenderFeed][])
+      .map(([id, feed]) => ({ id, frames: new MediaStreamTrackProcessor({ track: feed.track }).readable }));
+    this.worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onerror = (e) => {
+      this.error = e.message || 'The render worker stopped unexpectedly';
+    };
+    this.worker.onmessage = (e: MessageEvent<RenderEvent>) => {
+      if (e.data.type === 'stats') this.stats = e.data.stats;
+    };
+
+    const offscreen = canvas.transferControlToOffscreen();
+    const { fps, layout, state, effects } = options;
+    this.post({ type: 'start', canvas: offscreen, fps, layout, state, effects }, [offscreen]);
+    feeds.forEach(({ id, frames }) => this.post({ type: 'feed', id, frames }, [frames]));
+  }
+
+  private post(command: RenderCommand, transfer: Transferable[] = []) {
+    this.worker.postMessage(command, transfer);
+  }
+
+  setLayout(layout: LayoutDefinition, crossfade: boolean) {
+    this.post({ type: 'layout', layout, crossfade });
+  }
+
+  setState(state: CompositorState) {
+    this.post({ type: 'state', state });
+  }
+
+  setWebcamVisible(visible: boolean) {
+    this.post({ type: 'webcamVisible', visible });
+  }
+
+  setZoom(camera: ZoomCamera) {
+    this.post({ type: 'zoom', camera });
+  }
+
+  setPointer(pointer: { x: number; y: number } | null) {
+    this.post({ type: 'pointer', pointer });
+  }
+
+  click(x: number, y: number) {
+    this.post({ type: 'click', x, y });
+  }
+
+  setEffects(effects: PointerEffects) {
+    this.post({ type: 'effects', effects });
+  }
+
+  upsertAnnotation(annotation: Annotation) {
+    this.post({ type: 'annotation', annotation });
+  }
+
+  removeAnnotation(id: string) {
+    this.post({ type: 'removeAnnotation', id });
+  }
+
+  clearAnnotations() {
+    this.post({ type: 'clearAnnotations' });
+  }
+
+  pause() {
+    this.post({ type: 'pause' });
+  }
+
+  resume() {
+    this.post({ type: 'resume' });
+  }
+
+  getStats(): RenderStats {
+    return this.error ? { ...this.stats, error: this.error } : this.stats;
+  }
+
+  stop(): Promise<RenderStats> {
+    if (this.stopped) return this.stopped;
+    this.stopped = new Promise<RenderStats>(resolve => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.worker.terminate();
+        resolve(this.getStats());
+      };
+      // A wedged worker must not hold up saving the take.
+      const timer = window.setTimeout(finish, 1000);
+      this.worker.onmessage = (e: MessageEvent<RenderEvent>) => {
+        this.stats = e.data.stats;
+        if (e.data.type === 'stopped') finish();
+      };
+      this.post({ type: 'stop' });
+    });
+    return this.stopped;
+  }
+}
+
+// Fallback for browsers without OffscreenCanvas or track processors: the old
+// main-thread interval, which stutters once the tab is in the background.
+class MainThreadRenderLoop implements RenderLoop {
+  readonly mode: RenderMode = 'main-thread';
+  private ctx: CanvasRenderingContext2D;
+  private renderer: SceneRenderer;
+  private meter: FrameMeter;
+  private state: CompositorState;
+  private webcamVisible = true;
+  private interval: number | null = null;
+
+  constructor(private canvas: HTMLCanvasElement, private options: RenderLoopOptions, private fallbackReason: string) {
+    const context = canvas.getContext('2d', { alpha: false });
+    if (!context) throw new Error('Could not get canvas context');
+    this.ctx = context;
+    this.renderer = new SceneRenderer(options.layout, options.effects);
+    this.meter = new FrameMeter(this.mode, options.fps);
+    this.state = options.state;
+    this.resume();
+  }
+
+  private drawFrame() {
+    const started = performance.now();
+    this.meter.tick(started);
+    const { screen, webcam } = this.options.feeds;
+    const sources = {
+      screen: screen ? videoFrameSource(screen.video) : null,
+      webcam: webcam && this.webcamVisible ? videoFrameSource(webcam.video) : null
+    };
+    this.renderer.draw(this.ctx, sources, this.canvas.width, this.canvas.height, this.state);
+    this.meter.rendered(performance.now() - started);
+  }
+
+  setLayout(layout: LayoutDefinition, crossfade: boolean) {
+    this.renderer.setLayout(layout, crossfade);
+  }
+
+  setState(state: CompositorState) {
+    this.state = state;
+  }
+
+  setWebcamVisible(visible: boolean) {
+    this.webcamVisible = visible;
+  }
+
+  setZoom(camera: ZoomCamera) {
+    this.renderer.setZoom(camera);
+  }
+
+  setPointer(pointer: { x: number; y: number } | null) {
+    this.renderer.setPointer(pointer);
+  }
+
+  click(x: number, y: number) {
+    this.renderer.click(x, y);
+  }
+
+  setEffects(effects: PointerEffects) {
+    this.renderer.setEffects(effects);
+  }
+
+  upsertAnnotation(annotation: Annotation) {
+    this.renderer.upsertAnnotation(annotation);
+  }
+
+  removeAnnotation(id: string) {
+    this.renderer.removeAnnotation(id);
+  }
+
+  clearAnnotations() {
+    this.renderer.clearAnnotations();
+  }
+
+  pause() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    this.meter.pause();
+    this.renderer.pause();
+  }
+
+  resume() {
+    if (this.interval) return;
+    this.renderer.resume();
+    this.interval = window.setInterval(() => this.drawFrame(), 1000 / this.options.fps);
+  }
+
+  getStats(): RenderStats {
+    return { ...this.meter.snapshot(), fallbackReason: this.fallbackReason };
+  }
+
+  async stop(): Promise<RenderStats> {
+    this.pause();
+    return this.getStats();
+  }
+}
+
+// Starts compositing into `canvas` right away. The canvas is handed to the
+// worker when possible, after which it can no longer be resized or drawn to here.
+export function createRenderLoop(canvas: HTMLCanvasElement, options: RenderLoopOptions): RenderLoop {
+  if (!canRenderInWorker()) {
+    return new MainThreadRenderLoop(canvas, options, 'This browser lacks OffscreenCanvas or MediaStreamTrackProcessor');
+  }
+  try {
+    return new WorkerRenderLoop(canvas, options);
+  } catch (err) {
+    return new MainThreadRenderLoop(canvas, options, `The render worker could not start: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
@@ -0,0 +1,39 @@
+import { LayoutDefinition, Scene } from '../types';
+
+const SCENES_KEY = 'decdecrec.scenes';
+
+// How long a scene change blends the outgoing and incoming layouts.
+export const SCENE_CROSSFADE_MS = 300;
+
+export const DEFAULT_SCENES: Scene[] = [
+  { id: 'scene-bubble', name: 'Screen + Bubble', layoutId: 'CIRCLE' },
+  { id: 'scene-webcam', name: 'Full Webcam', layoutId: 'WEBCAM_ONLY' },
+  { id: 'scene-screen', name: 'Screen Only', layoutId: 'SCREEN_ONLY' }
+];
+
+const isValidScene = (raw: any): raw is Scene =>
+  !!raw && typeof raw.id === 'string' && typeof raw.name === 'string' && typeof raw.layoutId === 'string';
+
+export function loadScenes(): Scene[] {
+  try {
+    const raw = localStorage.getItem(SCENES_KEY);
+    if (!raw) return [...DEFAULT_SCENES];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isValidScene) : [...DEFAULT_SCENES];
+  } catch (e) {
+    return [...DEFAULT_SCENES];
+  }
+}
+
+export function saveScenes(scenes: Scene[]) {
+  localStorage.setItem(SCENES_KEY, JSON.stringify(scenes));
+}
+
+export function createScene(name: string, layoutId: Scene['layoutId']): Scene {
+  return { id: `scene-${Date.now().toString(36)}`, name, layoutId };
+}
+
+// The canvas size is fixed when a take starts, so only layouts with the same
+// aspect ratio can be switched to mid-recording.
+export const sameAspect = (a: LayoutDefinition, b: LayoutDefinition) =>
+  Math.abs(a.aspect.w / a.aspect.h - b.aspect.w / b.aspect.h) < 0.001;
@@ -0,0 +1,32 @@
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const ID_PATTERN = /^(\d{2})-([A-Z][a-z]{2})-(\d{4})_(\d{2})-(\d{2})-(\d{2})$/;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Session ids are DD-Mon-YYYY_HH-mm-ss in local time.
+export function formatSessionId(date: Date = new Date()): string {
+  return `${pad(date.getDate())}-${MONTHS[date.getMonth()]}-${date.getFullYear()}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
+export function parseSessionId(id: string): Date | null {
+  const m = ID_PATTERN.exec(id);
+  if (!m) return null;
+  const month = MONTHS.indexOf(m[2]);
+  if (month < 0) return null;
+  return new Date(+m[3], month, +m[1], +m[4], +m[5], +m[6]);
+}
+
+export function isSessionId(id: string): boolean {
+  return parseSessionId(id) !== null;
+}
+
+// Walks forward one second at a time so a renamed copy still reads as a valid id.
+export function nextFreeSessionId(id: string, taken: Set<string>): string {
+  const base = parseSessionId(id) || new Date();
+  let candidate = formatSessionId(base);
+  while (taken.has(candidate)) {
+    base.setSeconds(base.getSeconds() + 1);
+    candidate = formatSessionId(base);
+  }
+  return candidate;
+}
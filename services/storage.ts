@@ -0,0 +1,109 @@
+import { QualityConfig, RetentionPlan, RetentionSettings, SessionSummary, StorageEstimate } from '../types';
+import { deleteSession, dropSessionAudio, getAllSessionSummaries } from './db';
+import { shortSideFor } from './quality';
+
+const RETENTION_KEY = 'decdecrec.retention';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION: RetentionSettings = {
+  keepLastN: null,
+  deleteExportedAfterDays: null,
+  dropAudioCopies: false,
+  autoApply: false
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let i = 0;
+  while (value >= 1024 && i < units.length - 1) {
+    value /= 1024;
+    i++;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)} ${units[i]}`;
+};
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { quota = 0, usage = 0 } = await navigator.storage.estimate();
+  const persistent = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { quota, usage, free: Math.max(0, quota - usage), persistent };
+}
+
+// Persistent storage is exempt from the browser's automatic eviction under
+// disk pressure. Chrome grants it silently based on engagement; Firefox prompts.
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
+
+// With no bitrate set MediaRecorder picks its own; these are typical Chrome VP9
+// figures plus the separate audio-only track, with headroom.
+export function estimateBytesPerSecond(quality: QualityConfig): number {
+  const shortSide = shortSideFor(quality);
+  const videoBps = quality.videoBitrate || shortSide * (shortSide * 16 / 9) * quality.fps * 0.1;
+  const audioBps = (quality.audioBitrate || 128000) * 2;
+  return (videoBps + audioBps) / 8;
+}
+
+export function estimateRecordableSeconds(estimate: StorageEstimate, quality: QualityConfig): number {
+  return estimate.free / estimateBytesPerSecond(quality);
+}
+
+export function loadRetentionSettings(): RetentionSettings {
+  try {
+    const raw = localStorage.getItem(RETENTION_KEY);
+    return raw ? { ...DEFAULT_RETENTION, ...JSON.parse(raw) } : { ...DEFAULT_RETENTION };
+  } catch (e) {
+    return { ...DEFAULT_RETENTION };
+  }
+}
+
+export function saveRetentionSettings(settings: RetentionSettings) {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(settings));
+}
+
+export const sessionBytes = (s: SessionSummary) => (s.videoBytes || 0) + (s.audioBytes || 0);
+
+// `keepIds` (e.g. the take that was just saved) are never deleted or trimmed.
+export function planRetention(sessions: SessionSummary[], rules: RetentionSettings, now = Date.now(), keepIds: string[] = []): RetentionPlan {
+  const newestFirst = [...sessions].sort((a, b) => b.createdAtISO.localeCompare(a.createdAtISO));
+  const toDelete = new Set<string>();
+
+  if (rules.keepLastN !== null && rules.keepLastN >= 1) {
+    newestFirst.slice(rules.keepLastN).forEach(s => toDelete.add(s.id));
+  }
+  if (rules.deleteExportedAfterDays !== null && rules.deleteExportedAfterDays >= 0) {
+    const cutoff = now - rules.deleteExportedAfterDays * DAY_MS;
+    newestFirst
+      .filter(s => s.exportedAtISO && Date.parse(s.createdAtISO) < cutoff)
+      .forEach(s => toDelete.add(s.id));
+  }
+  keepIds.forEach(id => toDelete.delete(id));
+
+  const dropAudioIds = rules.dropAudioCopies
+    ? newestFirst.filter(s => !toDelete.has(s.id) && !keepIds.includes(s.id) && s.audioBytes > 0).map(s => s.id)
+    : [];
+
+  const byId = new Map(sessions.map(s => [s.id, s]));
+  const freedBytes =
+    [...toDelete].reduce((sum, id) => sum + sessionBytes(byId.get(id)!), 0) +
+    dropAudioIds.reduce((sum, id) => sum + byId.get(id)!.audioBytes, 0);
+
+  return { deleteIds: [...toDelete], dropAudioIds, freedBytes };
+}
+
+export async function applyRetentionPlan(plan: RetentionPlan): Promise<void> {
+  for (const id of plan.deleteIds) await deleteSession(id);
+  for (const id of plan.dropAudioIds) await dropSessionAudio(id);
+}
+
+export const isEmptyRetentionPlan = (plan: RetentionPlan) => plan.deleteIds.length === 0 && plan.dropAudioIds.length === 0;
+
+export const describeRetentionPlan = (plan: RetentionPlan) =>
+  `Delete ${plan.deleteIds.length} recording(s) and drop ${plan.dropAudioIds.length} audio track(s), freeing ${formatBytes(plan.freedBytes)}?`;
+
+export async function planLibraryRetention(rules: RetentionSettings, keepIds: string[] = []): Promise<RetentionPlan> {
+  return planRetention(await getAllSessionSummaries(), rules, Date.now(), keepIds);
+}
@@ -0,0 +1,172 @@
+import {
+  RecordingSession,
+  TranscriptionSettings,
+  TranscriptionProgress,
+  TranscriptionResult
+} from '../types';
+import { updateSession } from './db';
+import { transcribeWithLocalServer } from './localWhisper';
+import { audioExtension } from './quality';
+
+const SETTINGS_KEY = 'decdecrec.transcription';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com';
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  mode: 'OPENAI',
+  openaiKey: '',
+  openaiModel: 'whisper-1',
+  openaiBaseUrl: DEFAULT_OPENAI_BASE_URL,
+  localServerUrl: 'http://localhost:8000',
+  localModel: '',
+  language: ''
+};
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export function loadTranscriptionSettings(): TranscriptionSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return { ...DEFAULT_TRANSCRIPTION_SETTINGS };
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS };
+  }
+}
+
+export function saveTranscriptionSettings(settings: TranscriptionSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export const formatSrtTimestamp = (sec: number) => {
+  const ms = Math.max(0, Math.round(sec * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms % 1000, 3)}`;
+};
+
+export function segmentsToSrt(segments: WhisperSegment[]): string {
+  return segments
+    .map((seg, i) => `${i + 1}\n${formatSrtTimestamp(seg.start)} --> ${formatSrtTimestamp(seg.end)}\n${seg.text.trim()}\n`)
+    .join('\n');
+}
+
+export function srtToVtt(srt: string): string {
+  const body = srt
+    .replace(/\r/g, '')
+    .split(/\n{2,}/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => {
+      const lines = block.split('\n');
+      if (/^\d+$/.test(lines[0])) lines.shift();
+      lines[0] = lines[0].replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+      return lines.join('\n');
+    })
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+async function readError(res: Response): Promise<string> {
+  try {
+    const body = await res.json();
+    return body?.error?.message || body?.detail || res.statusText;
+  } catch (e) {
+    return res.statusText;
+  }
+}
+
+// Works against api.openai.com and any server that mirrors its
+// /v1/audio/transcriptions endpoint (whisper.cpp, faster-whisper-server, mocks).
+async function transcribeOpenAICompatible(
+  audio: Blob,
+  filename: string,
+  baseUrl: string,
+  model: string,
+  apiKey: string | undefined,
+  language: string | undefined,
+  onProgress: (p: TranscriptionProgress) => void
+): Promise<TranscriptionResult> {
+  const form = new FormData();
+  form.append('file', audio, filename);
+  form.append('model', model);
+  form.append('response_format', 'verbose_json');
+  if (language) form.append('language', language);
+
+  const headers: Record<string, string> = {};
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  onProgress({ stage: 'uploading' });
+  const res = await fetch(`${trimSlash(baseUrl)}/v1/audio/transcriptions`, {
+    method: 'POST',
+    headers,
+    body: form
+  });
+  if (!res.ok) throw new Error(`Transcription failed (${res.status}): ${await readError(res)}`);
+
+  onProgress({ stage: 'processing' });
+  const json = await res.json();
+  const text: string = (json.text || '').trim();
+  const segments: WhisperSegment[] = Array.isArray(json.segments) ? json.segments : [];
+  const srt = segments.length > 0
+    ? segmentsToSrt(segments)
+    : segmentsToSrt([{ start: 0, end: json.duration || 0, text }]);
+  return { text, srt };
+}
+
+export async function transcribeAudio(
+  audio: Blob,
+  filename: string,
+  settings: TranscriptionSettings,
+  onProgress: (p: TranscriptionProgress) => void = () => {}
+): Promise<TranscriptionResult> {
+  switch (settings.mode) {
+    case 'OPENAI':
+      if (!settings.openaiKey && trimSlash(settings.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL) === DEFAULT_OPENAI_BASE_URL) {
+        throw new Error('An OpenAI API key is required. Add one in Settings.');
+      }
+      return transcribeOpenAICompatible(
+        audio, filename,
+        settings.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL,
+        settings.openaiModel, settings.openaiKey, settings.language, onProgress
+      );
+    case 'LOCAL_SERVER':
+      if (!settings.localServerUrl) throw new Error('No local server URL configured. Add one in Settings.');
+      return transcribeWithLocalServer(
+        settings.localServerUrl, audio, filename,
+        settings.localModel || undefined, settings.language || undefined, onProgress
+      );
+    case 'CLI_GUIDE':
+    default:
+      throw new Error('CLI mode does not transcribe in the app. Follow the Whisper CLI guide in Settings.');
+  }
+}
+
+export async function transcribeSession(
+  session: RecordingSession,
+  settings: TranscriptionSettings,
+  onProgress: (p: TranscriptionProgress) => void = () => {},
+  signal?: AbortSignal
+): Promise<RecordingSession> {
+  onProgress({ stage: 'preparing' });
+  const audio = session.audioBlob || session.videoBlob;
+  const ext = session.audioBlob ? audioExtension(session.audioBlob) : session.videoType;
+  const result = await transcribeAudio(audio, `${session.id}.${ext}`, settings, onProgress);
+
+  // The request itself cannot be recalled, but a cancelled job must not overwrite the transcript.
+  if (signal?.aborted) throw new Error('Transcription cancelled');
+  onProgress({ stage: 'saving' });
+  const patch = { transcript: result.text, srt: result.srt, words: result.words };
+  await updateSession(session.id, patch);
+  const updated: RecordingSession = { ...session, ...patch };
+  onProgress({ stage: 'done' });
+  return updated;
+}
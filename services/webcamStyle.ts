@@ -0,0 +1,138 @@
+import { ChromaKeySettings, LayoutDivider, LayoutRegion, WebcamAppearance } from '../types';
+import { FrameSource } from './compositor';
+
+const APPEARANCE_KEY = 'decdecrec.webcamAppearance';
+
+export const MIN_WEBCAM_SIZE = 80;
+export const MAX_WEBCAM_SIZE = 960;
+// Keying runs on a copy of the frame at most this wide; the bubble is far smaller.
+const KEY_MAX_WIDTH = 640;
+
+export const DEFAULT_WEBCAM_APPEARANCE: WebcamAppearance = {
+  shape: 'layout',
+  size: 240,
+  border: { width: 4, color: '#ffffff' },
+  divider: {},
+  shadow: false,
+  mirror: false,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  chromaKey: { enabled: false, color: '#00ff00', tolerance: 35, softness: 20 }
+};
+
+export const clampWebcamSize = (size: number) => Math.round(Math.max(MIN_WEBCAM_SIZE, Math.min(MAX_WEBCAM_SIZE, size)));
+
+// The bubble region as the appearance restyles it; fixed panes keep the layout's look.
+export function styleWebcamRegion(region: LayoutRegion, appearance: WebcamAppearance): LayoutRegion {
+  if (!region.movable) return region;
+  const styled: LayoutRegion = {
+    ...region,
+    border: appearance.border.width > 0 ? { ...appearance.border } : undefined
+  };
+  if (appearance.shape === 'circle') styled.shape = 'circle';
+  if (appearance.shape === 'square') styled.shape = 'rect';
+  if (appearance.shape === 'rounded') {
+    styled.shape = 'rounded';
+    styled.cornerRadius = region.shape === 'rounded' ? region.cornerRadius : 0.2;
+  }
+  return styled;
+}
+
+// A divider as the appearance overrides it, or null when set to zero width.
+export function styleDivider(divider: LayoutDivider, appearance: WebcamAppearance): LayoutDivider | null {
+  const width = appearance.divider.width ?? divider.width;
+  if (width <= 0) return null;
+  return { ...divider, width, color: appearance.divider.color ?? divider.color };
+}
+
+// A CSS filter string for ctx.filter, or 'none' when nothing is adjusted.
+export function colourFilter(appearance: WebcamAppearance): string {
+  const parts = [
+    appearance.brightness !== 100 && `brightness(${appearance.brightness}%)`,
+    appearance.contrast !== 100 && `contrast(${appearance.contrast}%)`,
+    appearance.saturation !== 100 && `saturate(${appearance.saturation}%)`
+  ].filter(Boolean);
+  return parts.length ? parts.join(' ') : 'none';
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+// Makes pixels near the key colour transparent, in place. Keys on chroma only
+// (Cb/Cr), so shadows and highlights on the screen still key out. Runs per
+// pixel per frame, so it stays allocation-free and compares squared distances.
+export function applyChromaKey(data: Uint8ClampedArray, settings: ChromaKeySettings) {
+  const [kr, kg, kb] = hexToRgb(settings.color);
+  const kcb = -0.168736 * kr - 0.331264 * kg + 0.5 * kb;
+  const kcr = 0.5 * kr - 0.418688 * kg - 0.081312 * kb;
+  const inner = (settings.tolerance / 100) * 150;
+  const outer = inner + (settings.softness / 100) * 100;
+  const inner2 = inner * inner;
+  const outer2 = outer * outer;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const dcb = -0.168736 * r - 0.331264 * g + 0.5 * b - kcb;
+    const dcr = 0.5 * r - 0.418688 * g - 0.081312 * b - kcr;
+    const dist2 = dcb * dcb + dcr * dcr;
+    if (dist2 >= outer2) continue;
+    // Only the soft edge needs the real distance.
+    data[i + 3] = dist2 <= inner2 ? 0 : Math.round(data[i + 3] * (Math.sqrt(dist2) - inner) / (outer - inner));
+  }
+}
+
+type ScratchCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+// Workers only have OffscreenCanvas; the main-thread fallback may not.
+function createScratchCanvas(): ScratchCanvas {
+  return typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+}
+
+// Keys each webcam frame on a reusable scratch canvas.
+export class ChromaKeyer {
+  private canvas: ScratchCanvas | null = null;
+  private ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null = null;
+
+  key(src: FrameSource, settings: ChromaKeySettings): FrameSource {
+    if (!this.canvas) {
+      this.canvas = createScratchCanvas();
+      this.ctx = this.canvas.getContext('2d', { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    }
+    if (!this.ctx) return src;
+    const width = Math.min(KEY_MAX_WIDTH, src.width);
+    const height = Math.round(width * src.height / src.width);
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.ctx.clearRect(0, 0, width, height);
+    this.ctx.drawImage(src.image, 0, 0, width, height);
+    const pixels = this.ctx.getImageData(0, 0, width, height);
+    applyChromaKey(pixels.data, settings);
+    this.ctx.putImageData(pixels, 0, 0);
+    return { image: this.canvas, width, height };
+  }
+}
+
+export function loadWebcamAppearance(): WebcamAppearance {
+  try {
+    const raw = localStorage.getItem(APPEARANCE_KEY);
+    if (!raw) return DEFAULT_WEBCAM_APPEARANCE;
+    const parsed = JSON.parse(raw);
+    return {
+      ...DEFAULT_WEBCAM_APPEARANCE,
+      ...parsed,
+      border: { ...DEFAULT_WEBCAM_APPEARANCE.border, ...parsed.border },
+      divider: { ...parsed.divider },
+      chromaKey: { ...DEFAULT_WEBCAM_APPEARANCE.chromaKey, ...parsed.chromaKey }
+    };
+  } catch (e) {
+    return DEFAULT_WEBCAM_APPEARANCE;
+  }
+}
+
+export function saveWebcamAppearance(appearance: WebcamAppearance) {
+  localStorage.setItem(APPEARANCE_KEY, JSON.stringify(appearance));
+}
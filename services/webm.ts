@@ -0,0 +1,420 @@
+// MediaRecorder writes WebM as a live stream: the Segment and Clusters have
+// "unknown" sizes, Info has no Duration and there are no Cues, so players
+// can't show a length or seek. fixWebm() scans the file once and rewrites
+// only the header, appending a Cues index at the end; the media itself is
+// copied by reference, so even multi-GB takes aren't loaded into memory.
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Void: 0xec,
+  Chapters: 0x1043a770,
+  Tags: 0x1254c367,
+  Attachments: 0x1941a469
+};
+
+// Children of Segment; seeing one ends an unknown-size Cluster.
+const TOP_LEVEL_IDS = new Set([
+  ID.SeekHead, ID.Info, ID.Tracks, ID.Cluster, ID.Cues, ID.Chapters, ID.Tags, ID.Attachments, ID.Segment, ID.EBML
+]);
+
+const DEFAULT_TIMECODE_SCALE = 1000000; // ns per tick, i.e. milliseconds
+const READ_WINDOW = 4 * 1024 * 1024;
+
+interface ElementHeader {
+  id: number;
+  start: number; // offset of the ID
+  dataStart: number;
+  size: number | null; // null = unknown
+}
+
+interface ClusterInfo {
+  offset: number;
+  timecode: number;
+}
+
+interface TrackInfo {
+  number: number;
+  type: number; // 1 = video, 2 = audio
+}
+
+type BlockVisitor = (track: number, time: number, keyframe: boolean) => void;
+
+export interface WebmInfo {
+  hasVideo: boolean;
+  hasAudio: boolean;
+  keyframes: number[]; // seconds, video track only
+}
+
+// Reads a Blob through a sliding window so scanning never holds the whole file.
+class BlobReader {
+  private windowStart = 0;
+  private window = new Uint8Array(0);
+
+  constructor(private blob: Blob) {}
+
+  get size() {
+    return this.blob.size;
+  }
+
+  async bytes(pos: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(pos + length, this.blob.size);
+    if (pos < this.windowStart || end > this.windowStart + this.window.length) {
+      const windowEnd = Math.min(this.blob.size, pos + Math.max(length, READ_WINDOW));
+      this.window = new Uint8Array(await this.blob.slice(pos, windowEnd).arrayBuffer());
+      this.windowStart = pos;
+    }
+    return this.window.subarray(pos - this.windowStart, end - this.windowStart);
+  }
+
+  async header(pos: number): Promise<ElementHeader | null> {
+    if (pos >= this.blob.size) return null;
+    const buf = await this.bytes(pos, 12);
+    const idLen = vintLength(buf[0]);
+    if (idLen > 4 || buf.length < idLen + 1) return null;
+    const id = readUint(buf, 0, idLen);
+    const sizeLen = vintLength(buf[idLen]);
+    if (sizeLen > 8 || buf.length < idLen + sizeLen) return null;
+    const size = readVint(buf, idLen, sizeLen);
+    return { id, start: pos, dataStart: pos + idLen + sizeLen, size };
+  }
+}
+
+function vintLength(first: number): number {
+  for (let i = 0; i < 8; i++) {
+    if (first & (0x80 >> i)) return i + 1;
+  }
+  return 9;
+}
+
+function readUint(buf: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + buf[offset + i];
+  return value;
+}
+
+// Returns null for the reserved all-ones "unknown size" value.
+function readVint(buf: Uint8Array, offset: number, length: number): number | null {
+  let value = buf[offset] & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buf[offset + i];
+    if (buf[offset + i] !== 0xff) allOnes = false;
+  }
+  return allOnes ? null : value;
+}
+
+function readFloat(buf: Uint8Array, offset: number, length: number): number {
+  const view = new DataView(buf.buffer, buf.byteOffset + offset, length);
+  return length === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+function encodeId(id: number): Uint8Array {
+  const length = id >= 0x1000000 ? 4 : id >= 0x10000 ? 3 : id >= 0x100 ? 2 : 1;
+  return encodeUint(id, length);
+}
+
+function encodeUint(value: number, length?: number): Uint8Array {
+  let n = length ?? 1;
+  if (length === undefined) while (n < 8 && value >= 2 ** (8 * n)) n++;
+  const out = new Uint8Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    out[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return out;
+}
+
+function encodeSize(size: number, length = 8): Uint8Array {
+  const out = encodeUint(size, length);
+  out[0] |= 0x80 >> (length - 1);
+  return out;
+}
+
+function encodeFloat64(value: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setFloat64(0, value);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+// Smallest size-field length that can hold n (all-ones is reserved for "unknown").
+function sizeLength(n: number): number {
+  let length = 1;
+  while (n >= 2 ** (7 * length) - 1) length++;
+  return length;
+}
+
+function element(id: number, payload: Uint8Array | Uint8Array[]): Uint8Array {
+  const data = Array.isArray(payload) ? concat(payload) : payload;
+  return concat([encodeId(id), encodeSize(data.length, sizeLength(data.length)), data]);
+}
+
+async function readChildren(reader: BlobReader, parent: ElementHeader): Promise<ElementHeader[]> {
+  const children: ElementHeader[] = [];
+  const end = parent.dataStart + (parent.size ?? 0);
+  let pos = parent.dataStart;
+  while (pos < end) {
+    const child = await reader.header(pos);
+    if (!child || child.size === null) break;
+    children.push(child);
+    pos = child.dataStart + child.size;
+  }
+  return children;
+}
+
+async function readTracks(reader: BlobReader, tracks: ElementHeader): Promise<TrackInfo[]> {
+  const result: TrackInfo[] = [];
+  for (const entry of (await readChildren(reader, tracks)).filter(c => c.id === ID.TrackEntry)) {
+    const fields = await readChildren(reader, entry);
+    const numEl = fields.find(f => f.id === ID.TrackNumber);
+    const typeEl = fields.find(f => f.id === ID.TrackType);
+    if (!numEl) continue;
+    result.push({
+      number: readUint(await reader.bytes(numEl.dataStart, numEl.size!), 0, numEl.size!),
+      type: typeEl ? readUint(await reader.bytes(typeEl.dataStart, typeEl.size!), 0, typeEl.size!) : 0
+    });
+  }
+  return result;
+}
+
+async function readTimecodeScale(reader: BlobReader, info: ElementHeader): Promise<number> {
+  const scaleEl = (await readChildren(reader, info)).find(c => c.id === ID.TimecodeScale);
+  return scaleEl ? readUint(await reader.bytes(scaleEl.dataStart, scaleEl.size!), 0, scaleEl.size!) : DEFAULT_TIMECODE_SCALE;
+}
+
+// Walks an unknown-size Cluster block by block. Returns where it ends and the
+// latest block timestamp seen, relative to the cluster timecode.
+async function scanCluster(
+  reader: BlobReader,
+  cluster: ElementHeader,
+  onBlock?: BlockVisitor
+): Promise<{ end: number; timecode: number; lastBlock: number; truncated: boolean }> {
+  const limit = cluster.size === null ? reader.size : Math.min(reader.size, cluster.dataStart + cluster.size);
+  let pos = cluster.dataStart;
+  let timecode = 0;
+  let lastBlock = 0;
+  while (pos < limit) {
+    const child = await reader.header(pos);
+    if (!child || TOP_LEVEL_IDS.has(child.id)) break;
+    if (child.size === null || child.dataStart + child.size > reader.size) {
+      // Cut off mid-element, e.g. a recovered take: end the media before it.
+      return { end: child.start, timecode, lastBlock, truncated: true };
+    }
+    if (child.id === ID.Timecode) {
+      timecode = readUint(await reader.bytes(child.dataStart, child.size), 0, child.size);
+    } else if (child.id === ID.SimpleBlock || child.id === ID.BlockGroup) {
+      let blockStart = child.dataStart;
+      let keyframe = false;
+      if (child.id === ID.BlockGroup) {
+        const children = await readChildren(reader, child);
+        const block = children.find(c => c.id === ID.Block);
+        blockStart = block ? block.dataStart : -1;
+        // A Block with no ReferenceBlock depends on nothing, i.e. is a keyframe.
+        keyframe = !children.some(c => c.id === ID.ReferenceBlock);
+      }
+      if (blockStart >= 0) {
+        const head = await reader.bytes(blockStart, 11);
+        const trackLen = vintLength(head[0]);
+        const relative = new DataView(head.buffer, head.byteOffset + trackLen, 2).getInt16(0);
+        if (child.id === ID.SimpleBlock) keyframe = (head[trackLen + 2] & 0x80) !== 0;
+        lastBlock = Math.max(lastBlock, relative);
+        onBlock?.(readVint(head, 0, trackLen) ?? 0, timecode + relative, keyframe);
+      }
+    }
+    pos = child.dataStart + child.size;
+  }
+  return { end: pos, timecode, lastBlock, truncated: false };
+}
+
+// Rewrites a MediaRecorder WebM with a Duration, a SeekHead and Cues.
+// durationSeconds is a floor; the last block timestamp wins if it is later.
+// Files that already carry both Duration and Cues are returned unchanged.
+export async function fixWebm(blob: Blob, durationSeconds = 0): Promise<Blob> {
+  const reader = new BlobReader(blob);
+  const ebml = await reader.header(0);
+  if (!ebml || ebml.id !== ID.EBML || ebml.size === null) throw new Error('Not a WebM file.');
+  const segment = await reader.header(ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== ID.Segment) throw new Error('WebM has no Segment.');
+
+  const segmentEnd = segment.size === null ? blob.size : Math.min(blob.size, segment.dataStart + segment.size);
+  let info: ElementHeader | null = null;
+  let tracks: ElementHeader | null = null;
+  let hasCues = false;
+  const keep: ElementHeader[] = []; // other head elements copied as-is
+  const clusters: ClusterInfo[] = [];
+  let firstCluster = -1;
+  let bodyEnd = segmentEnd;
+  let lastTimestamp = 0;
+
+  let pos = segment.dataStart;
+  while (pos < segmentEnd) {
+    const el = await reader.header(pos);
+    if (!el) break;
+    if (el.id === ID.Cluster) {
+      if (firstCluster < 0) firstCluster = el.start;
+      const scanned = await scanCluster(reader, el);
+      clusters.push({ offset: el.start, timecode: scanned.timecode });
+      lastTimestamp = Math.max(lastTimestamp, scanned.timecode + scanned.lastBlock);
+      pos = scanned.end;
+      if (scanned.truncated) {
+        bodyEnd = scanned.end;
+        break;
+      }
+      continue;
+    }
+    if (el.size === null) break;
+    const next = el.dataStart + el.size;
+    if (el.id === ID.Cues) {
+      hasCues = true;
+      if (firstCluster >= 0 && next >= segmentEnd) bodyEnd = el.start;
+    } else if (firstCluster < 0) {
+      if (el.id === ID.Info) info = el;
+      else if (el.id === ID.Tracks) tracks = el;
+      else if (el.id !== ID.SeekHead && el.id !== ID.Void) keep.push(el);
+    }
+    pos = next;
+  }
+  if (!info || !tracks || firstCluster < 0) throw new Error('WebM is missing Info, Tracks or media.');
+
+  // Info: keep every child except Duration, then add ours.
+  const infoChildren = await readChildren(reader, info);
+  const timecodeScale = await readTimecodeScale(reader, info);
+  const durationEl = infoChildren.find(c => c.id === ID.Duration);
+  if (durationEl && hasCues) {
+    const existing = readFloat(await reader.bytes(durationEl.dataStart, durationEl.size!), 0, durationEl.size!);
+    if (existing > 0) return blob;
+  }
+  const ticksPerSecond = 1e9 / timecodeScale;
+  const durationTicks = Math.max(durationSeconds * ticksPerSecond, lastTimestamp);
+  const infoParts: Uint8Array[] = [];
+  for (const c of infoChildren) {
+    if (c.id === ID.Duration) continue;
+    infoParts.push((await reader.bytes(c.start, c.dataStart - c.start + c.size!)).slice());
+  }
+  infoParts.push(element(ID.Duration, encodeFloat64(durationTicks)));
+  const newInfo = element(ID.Info, infoParts);
+
+  // Cue on the video track if there is one, else the first track.
+  const trackNumbers = await readTracks(reader, tracks);
+  const cueTrack = (trackNumbers.find(t => t.type === 1) || trackNumbers[0])?.number ?? 1;
+
+  const tracksBytes = (await reader.bytes(tracks.start, tracks.dataStart - tracks.start + tracks.size!)).slice();
+  const keptBytes: Uint8Array[] = [];
+  for (const el of keep) keptBytes.push((await reader.bytes(el.start, el.dataStart - el.start + el.size!)).slice());
+
+  // SeekPositions are fixed-width so the SeekHead's size doesn't depend on them.
+  const seekEntry = (id: number, position: number) =>
+    element(ID.Seek, [element(ID.SeekID, encodeId(id)), element(ID.SeekPosition, encodeUint(position, 8))]);
+  const seekHeadSize = element(ID.SeekHead, [seekEntry(ID.Info, 0), seekEntry(ID.Tracks, 0), seekEntry(ID.Cues, 0)]).length;
+
+  const infoPos = seekHeadSize;
+  const tracksPos = infoPos + newInfo.length;
+  const bodyPos = tracksPos + tracksBytes.length + keptBytes.reduce((sum, b) => sum + b.length, 0);
+  const bodyLength = bodyEnd - firstCluster;
+  const cuesPos = bodyPos + bodyLength;
+
+  const cues = element(ID.Cues, clusters.map(c => element(ID.CuePoint, [
+    element(ID.CueTime, encodeUint(c.timecode)),
+    element(ID.CueTrackPositions, [
+      element(ID.CueTrack, encodeUint(cueTrack)),
+      element(ID.CueClusterPosition, encodeUint(c.offset - firstCluster + bodyPos))
+    ])
+  ])));
+  const seekHead = element(ID.SeekHead, [seekEntry(ID.Info, infoPos), seekEntry(ID.Tracks, tracksPos), seekEntry(ID.Cues, cuesPos)]);
+
+  const segmentSize = cuesPos + cues.length;
+  const ebmlBytes = (await reader.bytes(0, ebml.dataStart + ebml.size)).slice();
+  return new Blob([
+    ebmlBytes,
+    encodeId(ID.Segment),
+    encodeSize(segmentSize),
+    seekHead,
+    newInfo,
+    tracksBytes,
+    ...keptBytes,
+    blob.slice(firstCluster, bodyEnd),
+    cues
+  ], { type: blob.type });
+}
+
+// Lists the tracks and video keyframe times, e.g. to tell whether an edit's
+// cut points allow a stream copy.
+export async function inspectWebm(blob: Blob): Promise<WebmInfo> {
+  const reader = new BlobReader(blob);
+  const ebml = await reader.header(0);
+  if (!ebml || ebml.id !== ID.EBML || ebml.size === null) throw new Error('Not a WebM file.');
+  const segment = await reader.header(ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== ID.Segment) throw new Error('WebM has no Segment.');
+
+  const segmentEnd = segment.size === null ? blob.size : Math.min(blob.size, segment.dataStart + segment.size);
+  let tracks: TrackInfo[] = [];
+  let timecodeScale = DEFAULT_TIMECODE_SCALE;
+  const keyframes: number[] = [];
+  let pos = segment.dataStart;
+  while (pos < segmentEnd) {
+    const el = await reader.header(pos);
+    if (!el) break;
+    if (el.id === ID.Cluster) {
+      const video = tracks.find(t => t.type === 1)?.number;
+      const scanned = await scanCluster(reader, el, (track, time, keyframe) => {
+        if (keyframe && track === video) keyframes.push(time * timecodeScale / 1e9);
+      });
+      if (scanned.truncated) break;
+      pos = scanned.end;
+      continue;
+    }
+    if (el.size === null) break;
+    if (el.id === ID.Info) timecodeScale = await readTimecodeScale(reader, el);
+    else if (el.id === ID.Tracks) tracks = await readTracks(reader, el);
+    pos = el.dataStart + el.size;
+  }
+  return {
+    hasVideo: tracks.some(t => t.type === 1),
+    hasAudio: tracks.some(t => t.type === 2),
+    keyframes
+  };
+}
+
+// Adds duration and cues so the take seeks in every player. A file that can't
+// be parsed is kept as recorded rather than failing the whole save; `fixed`
+// tells the caller so it can flag the take.
+export async function seekable(blob: Blob, durationSeconds: number): Promise<{ blob: Blob; fixed: boolean }> {
+  try {
+    return { blob: await fixWebm(blob, durationSeconds), fixed: true };
+  } catch (err) {
+    return { blob, fixed: false };
+  }
+}
@@ -0,0 +1,131 @@
+"""
+Stand-in for server.py that speaks the same HTTP contract with canned output.
+Standard library only: no GPU, no model download, no network.
+
+    python mock_server.py --port 8000
+
+Point Settings > Local Server at http://localhost:8000 to exercise the client.
+Jobs move queued -> running -> done over a few polls. Upload a file whose name
+contains "fail" to get a job that ends in the error state.
+"""
+
+import argparse
+import json
+import re
+import uuid
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+from urllib.parse import parse_qs, urlparse
+
+MODELS = ["tiny", "base", "small"]
+WORDS = [
+    ("Welcome", 0.0, 0.4), ("to", 0.4, 0.55), ("this", 0.55, 0.8), ("tutorial.", 0.8, 1.4),
+    ("Let's", 2.0, 2.3), ("get", 2.3, 2.5), ("started.", 2.5, 3.1),
+]
+SRT = "1\n00:00:00,000 --> 00:00:01,400\nWelcome to this tutorial.\n\n2\n00:00:02,000 --> 00:00:03,100\nLet's get started.\n"
+VTT = "WEBVTT\n\n00:00:00.000 --> 00:00:01.400\nWelcome to this tutorial.\n\n00:00:02.000 --> 00:00:03.100\nLet's get started.\n"
+TEXT = "Welcome to this tutorial. Let's get started."
+
+jobs = {}
+
+
+class Handler(BaseHTTPRequestHandler):
+    def end_headers(self):
+        self.send_header("Access-Control-Allow-Origin", "*")
+        self.send_header("Access-Control-Allow-Headers", "*")
+        self.send_header("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+        super().end_headers()
+
+    def send_json(self, status, body):
+        data = json.dumps(body).encode()
+        self.send_response(status)
+        self.send_header("Content-Type", "application/json")
+        self.send_header("Content-Length", str(len(data)))
+        self.end_headers()
+        self.wfile.write(data)
+
+    def send_text(self, body):
+        data = body.encode()
+        self.send_response(200)
+        self.send_header("Content-Type", "text/plain; charset=utf-8")
+        self.send_header("Content-Length", str(len(data)))
+        self.end_headers()
+        self.wfile.write(data)
+
+    def do_OPTIONS(self):
+        self.send_response(204)
+        self.end_headers()
+
+    def do_GET(self):
+        url = urlparse(self.path)
+        parts = [p for p in url.path.split("/") if p]
+        if parts == ["health"]:
+            return self.send_json(200, {
+                "status": "ok", "version": "mock", "device": "none",
+                "models": MODELS, "defaultModel": MODELS[0],
+            })
+        if len(parts) >= 2 and parts[0] == "jobs":
+            job = jobs.get(parts[1])
+            if not job:
+                return self.send_json(404, {"detail": "Job not found"})
+            if len(parts) == 2:
+                return self.send_json(200, advance(job))
+            if len(parts) == 3 and parts[2] == "result":
+                if job["status"] != "done":
+                    return self.send_json(409, {"detail": f"Job is {job['status']}"})
+                fmt = parse_qs(url.query).get("format", ["txt"])[0]
+                if fmt == "json":
+                    return self.send_json(200, {"text": TEXT, "words": [{"word": w, "start": s, "end": e} for w, s, e in WORDS]})
+                if fmt in ("txt", "srt", "vtt"):
+                    return self.send_text({"txt": TEXT, "srt": SRT, "vtt": VTT}[fmt])
+                return self.send_json(400, {"detail": f"Unknown format '{fmt}'"})
+        self.send_json(404, {"detail": "Not found"})
+
+    def do_POST(self):
+        if urlparse(self.path).path.rstrip("/") != "/jobs":
+            return self.send_json(404, {"detail": "Not found"})
+        body = self.rfile.read(int(self.headers.get("Content-Length", 0)))
+        if b'name="file"' not in body:
+            return self.send_json(422, {"detail": "Missing file"})
+        model_match = re.search(rb'name="model"\r\n\r\n([^\r]*)', body)
+        model = model_match.group(1).decode() if model_match else MODELS[0]
+        if model not in MODELS:
+            return self.send_json(400, {"detail": f"Unknown model '{model}'"})
+        filename = re.search(rb'filename="([^"]*)"', body)
+        job = {
+            "id": uuid.uuid4().hex, "status": "queued", "progress": 0.0, "model": model,
+            "polls": 0, "fail": bool(filename and b"fail" in filename.group(1)),
+        }
+        jobs[job["id"]] = job
+        self.send_json(200, public(job))
+
+    def log_message(self, fmt, *args):
+        print("[mock-whisper] " + fmt % args)
+
+
+def advance(job):
+    if job["status"] in ("queued", "running"):
+        job["polls"] += 1
+        if job["polls"] >= 3:
+            if job["fail"]:
+                job.update(status="error", error="Simulated failure")
+            else:
+                job.update(status="done", progress=1.0)
+        else:
+            job.update(status="running", progress=job["polls"] / 3)
+    return public(job)
+
+
+def public(job):
+    data = {k: job[k] for k in ("id", "status", "progress", "model")}
+    if job.get("error"):
+        data["error"] = job["error"]
+    return data
+
+
+if __name__ == "__main__":
+    parser = argparse.ArgumentParser(description="Mock DecDecRec Whisper server")
+    parser.add_argument("--host", default="127.0.0.1")
+    parser.add_argument("--port", type=int, default=8000)
+    args = parser.parse_args()
+    print(f"Mock Whisper server on http://{args.host}:{args.port}")
+    ThreadingHTTPServer((args.host, args.port), Handler).serve_forever()
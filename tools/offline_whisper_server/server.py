@@ -0,0 +1,187 @@
+"""
+DecDecRec offline Whisper server.
+
+Implements the LOCAL_SERVER contract used by services/localWhisper.ts:
+
+    GET  /health
+    POST /jobs                  multipart: file, model?, language?
+    GET  /jobs/{id}
+    GET  /jobs/{id}/result?format=txt|srt|vtt|json
+
+Run:
+    pip install -r requirements.txt
+    python server.py --model medium --port 8000
+"""
+
+import argparse
+import os
+import tempfile
+import threading
+import uuid
+
+import uvicorn
+import whisper
+from fastapi import FastAPI, File, Form, HTTPException, UploadFile
+from fastapi.middleware.cors import CORSMiddleware
+from fastapi.responses import PlainTextResponse
+
+VERSION = "1.0.0"
+
+app = FastAPI(title="DecDecRec Offline Whisper")
+app.add_middleware(CORSMiddleware, allow_origins=["*"], allow_methods=["*"], allow_headers=["*"])
+
+jobs = {}
+jobs_lock = threading.Lock()
+models = {}
+models_lock = threading.Lock()
+config = {"default_model": "medium", "device": "cpu"}
+
+
+def fmt_time(seconds, sep):
+    ms = max(0, int(round(seconds * 1000)))
+    h, ms = divmod(ms, 3600000)
+    m, ms = divmod(ms, 60000)
+    s, ms = divmod(ms, 1000)
+    return f"{h:02d}:{m:02d}:{s:02d}{sep}{ms:03d}"
+
+
+def to_srt(segments):
+    blocks = []
+    for i, seg in enumerate(segments, start=1):
+        blocks.append(f"{i}\n{fmt_time(seg['start'], ',')} --> {fmt_time(seg['end'], ',')}\n{seg['text'].strip()}\n")
+    return "\n".join(blocks)
+
+
+def to_vtt(segments):
+    blocks = ["WEBVTT\n"]
+    for seg in segments:
+        blocks.append(f"{fmt_time(seg['start'], '.')} --> {fmt_time(seg['end'], '.')}\n{seg['text'].strip()}\n")
+    return "\n".join(blocks)
+
+
+def get_model(name):
+    with models_lock:
+        if name not in models:
+            models[name] = whisper.load_model(name, device=config["device"])
+        return models[name]
+
+
+def update_job(job_id, **fields):
+    with jobs_lock:
+        jobs[job_id].update(fields)
+
+
+def run_job(job_id, path, model_name, language):
+    try:
+        update_job(job_id, status="running", progress=0.05)
+        model = get_model(model_name)
+        update_job(job_id, progress=0.2)
+        result = model.transcribe(path, language=language or None, word_timestamps=True)
+        segments = result.get("segments", [])
+        words = [
+            {"word": w["word"].strip(), "start": w["start"], "end": w["end"]}
+            for seg in segments
+            for w in seg.get("words", [])
+        ]
+        update_job(
+            job_id,
+            status="done",
+            progress=1.0,
+            result={
+                "text": result.get("text", "").strip(),
+                "srt": to_srt(segments),
+                "vtt": to_vtt(segments),
+                "words": words,
+            },
+        )
+    except Exception as e:  # surfaced to the client through GET /jobs/{id}
+        update_job(job_id, status="error", error=str(e))
+    finally:
+        try:
+            os.remove(path)
+        except OSError:
+            pass
+
+
+def public_job(job):
+    data = {k: job[k] for k in ("id", "status", "progress", "model")}
+    if job.get("error"):
+        data["error"] = job["error"]
+    return data
+
+
+@app.get("/health")
+def health():
+    return {
+        "status": "ok",
+        "version": VERSION,
+        "device": config["device"],
+        "models": whisper.available_models(),
+        "defaultModel": config["default_model"],
+    }
+
+
+@app.post("/jobs")
+async def create_job(file: UploadFile = File(...), model: str = Form(None), language: str = Form(None)):
+    model_name = model or config["default_model"]
+    if model_name not in whisper.available_models():
+        raise HTTPException(status_code=400, detail=f"Unknown model '{model_name}'")
+
+    suffix = os.path.splitext(file.filename or "")[1] or ".webm"
+    fd, path = tempfile.mkstemp(suffix=suffix)
+    with os.fdopen(fd, "wb") as out:
+        out.write(await file.read())
+
+    job_id = uuid.uuid4().hex
+    job = {"id": job_id, "status": "queued", "progress": 0.0, "model": model_name}
+    with jobs_lock:
+        jobs[job_id] = job
+    threading.Thread(target=run_job, args=(job_id, path, model_name, language), daemon=True).start()
+    return public_job(job)
+
+
+def find_job(job_id):
+    with jobs_lock:
+        job = jobs.get(job_id)
+    if not job:
+        raise HTTPException(status_code=404, detail="Job not found")
+    return job
+
+
+@app.get("/jobs/{job_id}")
+def get_job(job_id: str):
+    return public_job(find_job(job_id))
+
+
+@app.get("/jobs/{job_id}/result")
+def get_result(job_id: str, format: str = "txt"):
+    job = find_job(job_id)
+    if job["status"] != "done":
+        raise HTTPException(status_code=409, detail=f"Job is {job['status']}")
+    result = job["result"]
+    if format == "json":
+        return {"text": result["text"], "words": result["words"]}
+    if format == "txt":
+        return PlainTextResponse(result["text"])
+    if format in ("srt", "vtt"):
+        return PlainTextResponse(result[format])
+    raise HTTPException(status_code=400, detail=f"Unknown format '{format}'")
+
+
+if __name__ == "__main__":
+    parser = argparse.ArgumentParser(description="DecDecRec offline Whisper server")
+    parser.add_argument("--host", default="127.0.0.1")
+    parser.add_argument("--port", type=int, default=8000)
+    parser.add_argument("--model", default="medium", help="default Whisper model")
+    parser.add_argument("--device", default=None, help="cpu or cuda (auto-detected if omitted)")
+    args = parser.parse_args()
+
+    if args.device:
+        config["device"] = args.device
+    else:
+        import torch
+
+        config["device"] = "cuda" if torch.cuda.is_available() else "cpu"
+    config["default_model"] = args.model
+
+    uvicorn.run(app, host=args.host, port=args.port)
@@ -1,11 +1,179 @@
 
-export type LayoutStyle = 'CIRCLE' | 'SHORTS';
+export type BuiltInLayoutId =
+  | 'CIRCLE'
+  | 'SHORTS'
+  | 'PIP_ROUNDED'
+  | 'SIDE_BY_SIDE'
+  | 'WEBCAM_ONLY'
+  | 'SCREEN_ONLY'
+  | 'SQUARE'
+  | 'SPLIT_VERTICAL';
 
-export type Resolution = '720p' | '1080p';
+// Built-in ids plus the ids of user-saved custom layouts.
+export type LayoutStyle = BuiltInLayoutId | (string & {});
+
+export type LayoutSource = 'screen' | 'webcam';
+export type RegionShape = 'rect' | 'rounded' | 'circle';
+export type RegionFit = 'cover' | 'contain' | 'stretch';
+
+// All rect values are fractions (0..1) of the canvas.
+export interface LayoutRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface LayoutRegion {
+  source: LayoutSource;
+  rect: LayoutRect;
+  shape: RegionShape;
+  cornerRadius?: number; // fraction of the region's shorter side, for 'rounded'
+  border?: { width: number; color: string };
+  fit: RegionFit;
+  background?: string; // drawn when the source is unavailable
+  // Draggable bubble: `rect` is ignored and the region is centred on the
+  // recorder's webcamPos at webcamSize pixels.
+  movable?: boolean;
+}
+
+export interface LayoutDivider {
+  orientation: 'horizontal' | 'vertical';
+  at: number; // fraction of canvas height (horizontal) or width (vertical)
+  width: number;
+  color: string;
+}
+
+export interface LayoutDefinition {
+  id: LayoutStyle;
+  name: string;
+  aspect: { w: number; h: number };
+  background: string;
+  regions: LayoutRegion[]; // drawn in order, later regions on top
+  dividers?: LayoutDivider[];
+  custom?: boolean;
+}
+
+export type SceneSlot = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export type HotkeyAction =
+  | 'toggleRecording'
+  | 'togglePause'
+  | 'marker'
+  | 'nextScene'
+  | `scene${SceneSlot}`
+  | 'toggleWebcam'
+  | 'toggleMicMute'
+  | 'toggleZoom'
+  | 'toggleAnnotate'
+  | 'undoAnnotation'
+  | 'nudgeUp'
+  | 'nudgeDown'
+  | 'nudgeLeft'
+  | 'nudgeRight';
+
+// Combos are modifiers plus a KeyboardEvent.code, e.g. "Alt+Shift+KeyR", so
+// bindings survive keyboard layout changes. null leaves an action unbound.
+export type HotkeyBindings = Record<HotkeyAction, string | null>;
+
+// A named shortcut to a layout that can be cut to mid-recording.
+export interface Scene {
+  id: string;
+  name: string;
+  layoutId: LayoutStyle;
+}
+
+export interface SceneChange {
+  t: number; // seconds of recorded time
+  layoutId: LayoutStyle;
+  sceneId?: string; // absent when switched via a plain layout button
+}
+
+export type Resolution = '720p' | '1080p' | '1440p' | '2160p' | 'custom';
+
+export type RecordingCodec = 'vp9' | 'vp8' | 'av1' | 'h264';
+
+export type VideoContainer = 'webm' | 'mp4';
 
 export interface QualityConfig {
   resolution: Resolution;
+  customShortSide?: number; // px, when resolution is 'custom'
   fps: 30 | 60;
+  codec?: RecordingCodec | 'auto'; // preferred; falls back down the ranking when unsupported
+  videoBitrate?: number | null; // bits/s; null lets the browser choose
+  audioBitrate?: number | null;
+}
+
+// What MediaRecorder was actually given, after negotiation.
+export interface RecordingFormat {
+  codec: RecordingCodec;
+  container: VideoContainer;
+  mimeType: string;
+  audioMimeType: string; // the separate audio-only take
+  videoBitsPerSecond?: number;
+  audioBitsPerSecond?: number;
+}
+
+// The screen source's zoom/pan camera. x/y is the centre of the view in the
+// layout's screen region (0-1 each way); scale 1 shows the whole region.
+export interface ZoomCamera {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export interface ZoomKeyframe extends ZoomCamera {
+  t: number; // seconds of recorded time
+}
+
+export type AnnotationTool = 'pen' | 'arrow' | 'rect' | 'highlighter' | 'text';
+
+// A shape drawn over the composite. Points are percent of the canvas; pen and
+// highlighter strokes keep every point, arrows and rectangles use two.
+export interface Annotation {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  size: number; // stroke width in px at a 1080px short side
+  points: { x: number; y: number }[];
+  text?: string;
+  fadeAfter?: number; // seconds on screen before fading out; absent keeps it until cleared
+}
+
+export interface AnnotationSettings {
+  tool: AnnotationTool;
+  color: string;
+  size: number;
+  fadeSeconds: number | null;
+}
+
+// The annotation log saved with a recording, in recorded time. An 'add' is
+// logged when the annotation is finished (its fade counts from `t`); `start`
+// is when it first appeared while being drawn.
+export type AnnotationEvent =
+  | { t: number; type: 'add'; annotation: Annotation; start: number }
+  | { t: number; type: 'undo'; id: string }
+  | { t: number; type: 'clear' };
+
+// Overlays driven by the pointer over the live preview.
+export interface PointerEffects {
+  clickRipples: boolean;
+  spotlight: boolean;
+}
+
+// 'worker' composites off the main thread on an unthrottled clock; 'main-thread'
+// is the fallback where OffscreenCanvas or MediaStreamTrackProcessor is missing.
+export type RenderMode = 'worker' | 'main-thread';
+
+export interface RenderStats {
+  mode: RenderMode;
+  targetFps: number;
+  framesRendered: number;
+  framesDropped: number; // ticks that came too late to keep the target rate
+  avgRenderMs: number;
+  maxRenderMs: number;
+  fallbackReason?: string; // why a main-thread take isn't composited in a worker
+  error?: string; // the render worker crashed; the recording stops updating
 }
 
 export interface RecordingSession {
@@ -14,12 +182,234 @@ export interface RecordingSession {
   durationSeconds: number;
   layoutStyle: LayoutStyle;
   quality: QualityConfig;
+  title?: string; // user-given; the Library falls back to the id
+  tags?: string[]; // lowercase, unique
   videoBlob: Blob;
   audioBlob?: Blob;
   transcript?: string;
   srt?: string;
-  metadata: any;
-  videoType: 'webm' | 'mp4';
+  words?: TranscriptWord[];
+  metadata: SessionMetadata;
+  videoType: VideoContainer;
+  exportedAtISO?: string; // last download, conversion or ZIP export
+  edit?: EditList; // non-destructive; videoBlob is always the original take
+  thumbnails?: SessionThumbnails;
+}
+
+// Captured when a session is saved; small enough to live in the summary store.
+export interface SessionThumbnails {
+  poster: Blob; // JPEG
+  sprite: Blob; // JPEG, `frames` frames side by side
+  frames: number;
+  frameWidth: number;
+  frameHeight: number;
+}
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+export interface EditList {
+  in: number; // seconds; everything before is trimmed
+  out: number; // seconds; everything after is trimmed
+  cuts: TimeRange[]; // ranges removed between in and out
+}
+
+// What the `sessions` store holds: everything but the media, so the Library
+// can list hundreds of recordings without reading any video data.
+export type SessionSummary = Omit<RecordingSession, 'videoBlob' | 'audioBlob'> & {
+  videoBytes: number;
+  audioBytes: number;
+};
+
+export interface SessionBlobs {
+  id: string;
+  videoBlob: Blob;
+  audioBlob?: Blob;
+}
+
+export type SessionSortKey = 'createdAtISO' | 'durationSeconds' | 'videoBytes';
+
+export interface SessionPageQuery {
+  orderBy?: SessionSortKey;
+  descending?: boolean;
+  layoutStyle?: LayoutStyle;
+  where?: (session: SessionSummary) => boolean;
+  limit?: number;
+  after?: SessionPageCursor;
+}
+
+export interface SessionFilter {
+  text: string; // every word must appear in the title, id, tags or transcript
+  layoutStyle: LayoutStyle | null;
+  resolution: Resolution | null;
+  fps: QualityConfig['fps'] | null;
+  fromDate: string | null; // YYYY-MM-DD, local, inclusive
+  toDate: string | null;
+  minMinutes: number | null;
+  maxMinutes: number | null;
+  tags: string[]; // all must be present
+}
+
+export type LibrarySort = 'newest' | 'oldest' | 'longest' | 'shortest' | 'largest' | 'smallest';
+
+export interface LibraryView {
+  sort: LibrarySort;
+  filter: SessionFilter;
+}
+
+export interface SessionPageCursor {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+export interface SessionPage {
+  items: SessionSummary[];
+  next?: SessionPageCursor;
+}
+
+export interface WebcamKeyframe {
+  t: number; // seconds of recorded time
+  x: number; // percent of canvas width
+  y: number; // percent of canvas height
+  size?: number; // px; logged when the bubble is resized
+}
+
+// 'layout' keeps the shape the layout gives the bubble.
+export type WebcamShape = 'layout' | 'circle' | 'rounded' | 'square';
+
+export interface ChromaKeySettings {
+  enabled: boolean;
+  color: string; // hex
+  tolerance: number; // 0-100; how far from the key colour still counts as background
+  softness: number; // 0-100; width of the partly transparent edge
+}
+
+// How the webcam is drawn. Shape, size, border and shadow apply to the
+// draggable bubble; mirror, colour and chroma key to every webcam region.
+export interface WebcamAppearance {
+  shape: WebcamShape;
+  size: number; // bubble size in canvas px
+  border: { width: number; color: string };
+  divider: { width?: number; color?: string }; // split-layout dividers; unset keeps each layout's own
+  shadow: boolean;
+  mirror: boolean;
+  brightness: number; // percent, 100 = unchanged
+  contrast: number;
+  saturation: number;
+  chromaKey: ChromaKeySettings;
+}
+
+export interface RecordingMarker {
+  t: number; // seconds of recorded time, pauses excluded
+  label?: string;
+}
+
+export interface ClockSegment {
+  start: number; // seconds of wall time since the take started
+  end: number;
+}
+
+// Active (recording) segments of a take; the gaps between them were paused.
+export interface RecordingTimeline {
+  startedAtISO: string;
+  segments: ClockSegment[];
+  activeSeconds: number;
+  pausedSeconds: number;
+}
+
+export interface Chapter {
+  start: number; // seconds
+  end: number;
+  title: string;
+}
+
+export type AudioSourceId = 'mic' | 'system';
+
+export interface MixerChannelSettings {
+  gain: number; // linear, 1 = unity
+  muted: boolean;
+}
+
+export interface MixerSettings {
+  captureSystemAudio: boolean;
+  channels: Record<AudioSourceId, MixerChannelSettings>;
+  compressor: boolean; // gentle compressor followed by a brickwall limiter on the mix
+  noiseGate: { enabled: boolean; thresholdDb: number }; // mic only
+}
+
+export interface AudioLevels {
+  peak: number; // dBFS
+  rms: number; // dBFS
+}
+
+export type MixerLevels = Record<AudioSourceId | 'master', AudioLevels>;
+
+export interface CaptureDevices {
+  screen?: string;
+  webcam?: string;
+  microphone?: string;
+  systemAudio: boolean;
+}
+
+// Older sessions only carry `webcamPos`; everything else is optional.
+export interface SessionMetadata {
+  webcamPos: { x: number; y: number };
+  layout?: LayoutDefinition;
+  webcamSize?: number;
+  webcamAppearance?: WebcamAppearance; // as it stood when the take stopped
+  webcamTimeline?: WebcamKeyframe[];
+  sceneTimeline?: SceneChange[]; // first entry is the starting layout at t=0
+  markers?: RecordingMarker[];
+  timeline?: RecordingTimeline;
+  canvas?: { width: number; height: number };
+  devices?: CaptureDevices;
+  mixer?: MixerSettings; // as it stood when the take stopped
+  format?: RecordingFormat;
+  render?: RenderStats;
+  zoomTimeline?: ZoomKeyframe[]; // first entry is the starting camera at t=0
+  annotations?: AnnotationEvent[];
+  appVersion?: string;
+  recovered?: boolean; // rebuilt from persisted chunks after a crash
+  unseekable?: boolean; // duration/cues could not be added to the WebM; players may not seek
+}
+
+export interface RecordingOutput {
+  recordingId: string;
+  durationSeconds: number; // active time from the recorder clock
+  videoBlob: Blob;
+  audioBlob?: Blob;
+  metadata: SessionMetadata;
+}
+
+export interface BundleManifest {
+  schema: 'decdecrec.bundle';
+  schemaVersion: number;
+  appVersion: string;
+  exportedAtISO: string;
+  session: {
+    id: string;
+    createdAtISO: string;
+    durationSeconds: number;
+    layoutStyle: LayoutStyle;
+    quality: QualityConfig;
+    videoType: VideoContainer;
+    title?: string;
+    tags?: string[];
+    edit?: EditList;
+  };
+  files: {
+    video: string;
+    audio?: string;
+    transcript?: string;
+    srt?: string;
+    vtt?: string;
+    words?: string;
+    chapters?: string; // YouTube description format
+    chaptersVtt?: string;
+  };
+  metadata: SessionMetadata;
 }
 
 export interface StorageEstimate {
@@ -29,9 +419,139 @@ export interface StorageEstimate {
   persistent: boolean;
 }
 
+export type TranscriptionMode = 'OPENAI' | 'LOCAL_SERVER' | 'CLI_GUIDE';
+
+export interface RetentionSettings {
+  keepLastN: number | null;
+  deleteExportedAfterDays: number | null;
+  dropAudioCopies: boolean;
+  autoApply: boolean;
+}
+
+export interface RetentionPlan {
+  deleteIds: string[];
+  dropAudioIds: string[];
+  freedBytes: number;
+}
+
 export interface TranscriptionSettings {
-  mode: 'OPENAI' | 'LOCAL_SERVER' | 'CLI_GUIDE';
+  mode: TranscriptionMode;
   openaiKey?: string;
   openaiModel: string;
+  openaiBaseUrl?: string; // any OpenAI-compatible host, defaults to api.openai.com
   localServerUrl: string;
+  localModel?: string; // empty uses the server's default model
+  language?: string;
+}
+
+export type TranscriptionStage = 'preparing' | 'uploading' | 'processing' | 'saving' | 'done' | 'error';
+
+export interface TranscriptionProgress {
+  stage: TranscriptionStage;
+  message?: string;
+}
+
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface CaptionCue {
+  start: number; // seconds
+  end: number;
+  text: string;
+  words?: TranscriptWord[]; // only when the transcript has word timings
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+export interface CaptionStyle {
+  fontFamily: string;
+  fontSize: number; // percent of the frame's short side
+  fontWeight: number;
+  position: CaptionPosition;
+  textColor: string;
+  highlightColor: string; // the word being spoken, in karaoke mode
+  outline: boolean;
+  background: boolean; // translucent box behind each line
+  uppercase: boolean;
+  karaoke: boolean;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  srt: string;
+  words?: TranscriptWord[];
+}
+
+// Contract spoken by tools/offline_whisper_server (see README "Local Server API").
+export interface LocalServerHealth {
+  status: 'ok';
+  version: string;
+  device: string;
+  models: string[];
+  defaultModel: string;
+}
+
+export type LocalJobStatus = 'queued' | 'running' | 'done' | 'error';
+
+export interface LocalServerJob {
+  id: string;
+  status: LocalJobStatus;
+  progress: number; // 0..1
+  model: string;
+  error?: string;
+}
+
+export type LocalResultFormat = 'txt' | 'srt' | 'vtt' | 'json';
+
+export type AudioExportFormat = 'mp3' | 'wav';
+
+export interface FFmpegProgress {
+  stage: 'loading' | 'processing' | 'done';
+  ratio: number; // 0..1
+  timeSeconds: number;
+}
+
+export interface FFmpegTaskOptions {
+  onProgress?: (p: FFmpegProgress) => void;
+  signal?: AbortSignal;
+}
+
+export type JobKind = 'delete' | 'zip' | 'mp4' | 'transcribe';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// A Library batch task. Batches are split into one job per session wherever
+// a single failure should be retryable on its own.
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  status: JobStatus;
+  progress: number; // 0..1
+  message?: string; // current stage, or the error once failed
+}
+
+export type ChunkTrack = 'video' | 'audio';
+
+// An in-progress take. Chunks are persisted as they arrive so a crash or
+// closed tab can be recovered into a normal session on next launch.
+export interface PendingRecording {
+  id: string;
+  startedAtISO: string;
+  updatedAtISO: string;
+  elapsedSeconds: number;
+  layoutStyle: LayoutStyle;
+  quality: QualityConfig;
+  metadata: SessionMetadata;
+}
+
+export interface RecordingChunk {
+  key?: number;
+  recordingId: string;
+  track: ChunkTrack;
+  seq: number;
+  data: Blob;
 }
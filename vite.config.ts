@@ -1,16 +1,32 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const pkg = JSON.parse(fs.readFileSync(path.resolve(__dirname, 'package.json'), 'utf-8'));
+    // FFmpeg.wasm's multi-threaded core needs SharedArrayBuffer, which requires
+    // cross-origin isolation. `credentialless` keeps the CDN scripts in index.html loading.
+    const isolationHeaders = {
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'credentialless',
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        headers: isolationHeaders,
+      },
+      preview: {
+        headers: isolationHeaders,
+      },
+      optimizeDeps: {
+        exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util'],
       },
       plugins: [react()],
       define: {
+        '__APP_VERSION__': JSON.stringify(pkg.version),
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },